@@ -2,6 +2,9 @@ import typescriptEslint from "@typescript-eslint/eslint-plugin";
 import tsParser from "@typescript-eslint/parser";
 
 export default [{
+    // Verbatim tool output, such as rustdoc's search-index.js
+    ignores: ["src/test/fixtures/"],
+}, {
     files: ["**/*.ts"],
 }, {
     plugins: {
@@ -0,0 +1,152 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import * as util from 'util';
+
+const execFilePromise = util.promisify(execFile);
+
+// A package of the resolved dependency graph
+export interface CargoPackage {
+	id: string;
+	// Package name as published ("my-crate") and as used in paths ("my_crate")
+	name: string;
+	crateName: string;
+	version: string;
+	// Directory holding Cargo.toml
+	rootDir: string;
+	// Directories of the library and binary targets' root files, where the crate's modules live
+	sourceRoots: string[];
+	// Root file of the library target, whose inner docs are the crate's root docs
+	libPath?: string;
+	// Features enabled in this workspace's resolve
+	features: string[];
+	isWorkspaceMember: boolean;
+	// Ids of the packages this one depends on
+	dependencies: string[];
+}
+
+export interface PackageGraph {
+	workspaceRoot: string;
+	// Build directory, honouring CARGO_TARGET_DIR and build.target-dir
+	targetDirectory: string;
+	packages: CargoPackage[];
+}
+
+// Target kinds whose sources make up the crate itself (not tests, benches, examples or build scripts)
+const CRATE_TARGET_KINDS = new Set(['lib', 'rlib', 'dylib', 'cdylib', 'staticlib', 'proc-macro', 'bin']);
+
+// The parts of `cargo metadata --format-version 1` output the package graph is built from
+interface RawCargoMetadata {
+	packages?: RawPackage[];
+	workspace_members?: string[];
+	// Absent with --no-deps
+	resolve?: { nodes?: RawResolveNode[] } | null;
+	workspace_root: string;
+	target_directory: string;
+}
+
+interface RawPackage {
+	id: string;
+	name: string;
+	version: string;
+	manifest_path: string;
+	targets?: RawTarget[];
+}
+
+interface RawTarget {
+	// "lib", "bin", "proc-macro", "test", "custom-build", ...
+	kind: string[];
+	name: string;
+	src_path: string;
+}
+
+interface RawResolveNode {
+	id: string;
+	features?: string[];
+	dependencies?: string[];
+}
+
+// Build the package graph from the output of `cargo metadata --format-version 1`
+export function parseCargoMetadata(json: string): PackageGraph {
+	const metadata: RawCargoMetadata = JSON.parse(json);
+	const members = new Set<string>(metadata.workspace_members || []);
+	const nodes = new Map<string, RawResolveNode>();
+	for (const node of metadata.resolve?.nodes || []) {
+		nodes.set(node.id, node);
+	}
+
+	const packages: CargoPackage[] = (metadata.packages || []).map(pkg => {
+		const targets = (pkg.targets || []).filter(target => target.kind.some(kind => CRATE_TARGET_KINDS.has(kind)));
+		const lib = targets.find(target => !target.kind.includes('bin'));
+		const node = nodes.get(pkg.id);
+		return {
+			id: pkg.id,
+			name: pkg.name,
+			crateName: (lib ? lib.name : pkg.name).replace(/-/g, '_'),
+			version: pkg.version,
+			rootDir: path.dirname(pkg.manifest_path),
+			sourceRoots: [...new Set(targets.map(target => path.dirname(target.src_path)))],
+			libPath: lib?.src_path,
+			features: [...(node?.features || [])].sort(),
+			isWorkspaceMember: members.has(pkg.id),
+			dependencies: node?.dependencies || []
+		};
+	});
+
+	return { workspaceRoot: metadata.workspace_root, targetDirectory: metadata.target_directory, packages };
+}
+
+// Package whose directory contains a file; the innermost one when packages are nested
+export function findPackage(graph: PackageGraph, filePath: string): CargoPackage | undefined {
+	let best: CargoPackage | undefined;
+	for (const pkg of graph.packages) {
+		if (filePath.startsWith(pkg.rootDir + path.sep) && (!best || pkg.rootDir.length > best.rootDir.length)) {
+			best = pkg;
+		}
+	}
+	return best;
+}
+
+// Package graphs of the workspace folders, read with `cargo metadata --offline` on first use
+export class CargoMetadata {
+	private _graphs = new Map<string, Promise<PackageGraph | undefined>>();
+
+	constructor(private readonly _log: (message: string) => void) {}
+
+	// Graph of the Cargo workspace at a folder; undefined if it is not one or cargo fails
+	public graph(folder: string): Promise<PackageGraph | undefined> {
+		let graph = this._graphs.get(folder);
+		if (!graph) {
+			graph = this._load(folder);
+			this._graphs.set(folder, graph);
+		}
+		return graph;
+	}
+
+	public async packageFor(filePath: string, folder: string): Promise<CargoPackage | undefined> {
+		const graph = await this.graph(folder);
+		return graph ? findPackage(graph, filePath) : undefined;
+	}
+
+	// A manifest or lock file changed: the graph of its folder (or all graphs) is read again on next use
+	public invalidate(folder?: string) {
+		if (folder) {
+			this._graphs.delete(folder);
+		} else {
+			this._graphs.clear();
+		}
+	}
+
+	private async _load(folder: string): Promise<PackageGraph | undefined> {
+		try {
+			const { stdout } = await execFilePromise(
+				'cargo',
+				['metadata', '--offline', '--format-version', '1'],
+				{ cwd: folder, maxBuffer: 64 * 1024 * 1024 }
+			);
+			return parseCargoMetadata(stdout);
+		} catch (error) {
+			this._log(`cargo metadata failed in ${folder}: ${error instanceof Error ? error.message : error}`);
+			return undefined;
+		}
+	}
+}
@@ -0,0 +1,171 @@
+import { execFile } from 'child_process';
+import * as util from 'util';
+
+const execFilePromise = util.promisify(execFile);
+
+// The configuration `#[cfg]` predicates are evaluated against
+export interface CfgOptions {
+	// Options set without a value, e.g. "unix" or "debug_assertions"
+	names: Set<string>;
+	// Values of key options, e.g. target_os -> {"linux"}
+	values: Map<string, Set<string>>;
+	// Enabled features of the package; unknown when the package is not, which leaves feature predicates undecided
+	features?: Set<string>;
+}
+
+// A parsed predicate: an option name, a key = "value" pair, or all/any/not of predicates
+type CfgPredicate =
+	| { name: string; value?: string }
+	| { operator: 'all' | 'any' | 'not'; operands: CfgPredicate[] };
+
+// Read the options `rustc --print cfg` lists, one per line: `unix` or `target_os="linux"`
+export function parseCfgOutput(output: string): CfgOptions {
+	const options: CfgOptions = { names: new Set(), values: new Map() };
+	for (const line of output.split('\n')) {
+		const match = line.trim().match(/^(\w+)(?:="(.*)")?$/);
+		if (!match) {
+			continue;
+		}
+		if (match[2] === undefined) {
+			options.names.add(match[1]);
+		} else {
+			const values = options.values.get(match[1]) || new Set<string>();
+			values.add(match[2]);
+			options.values.set(match[1], values);
+		}
+	}
+	return options;
+}
+
+// The predicate of an item's #[cfg(...)] attributes, several joined with all(); undefined without any
+export function cfgPredicate(attributes: string[]): string | undefined {
+	const predicates = attributes
+		.map(attribute => /^cfg\s*\(([\s\S]*)\)$/.exec(attribute)?.[1].trim())
+		.filter((predicate): predicate is string => !!predicate);
+	return joinCfg(...predicates);
+}
+
+// Predicates that must all hold, e.g. an impl block's and its method's
+export function joinCfg(...predicates: (string | undefined)[]): string | undefined {
+	const present = predicates.filter((predicate): predicate is string => !!predicate);
+	return present.length > 1 ? `all(${present.join(', ')})` : present[0];
+}
+
+// Whether a predicate holds: undefined when it cannot be decided (unknown features, or text that does not parse)
+export function evaluateCfg(predicate: string, options: CfgOptions): boolean | undefined {
+	const parsed = parseCfg(predicate);
+	return parsed ? evaluate(parsed, options) : undefined;
+}
+
+function evaluate(predicate: CfgPredicate, options: CfgOptions): boolean | undefined {
+	if ('name' in predicate) {
+		if (predicate.value === undefined) {
+			return options.names.has(predicate.name);
+		}
+		if (predicate.name === 'feature') {
+			return options.features ? options.features.has(predicate.value) : undefined;
+		}
+		return options.values.get(predicate.name)?.has(predicate.value) ?? false;
+	}
+	const results = predicate.operands.map(operand => evaluate(operand, options));
+	switch (predicate.operator) {
+		case 'not':
+			return results.length === 1 && results[0] !== undefined ? !results[0] : undefined;
+		case 'all':
+			return results.includes(false) ? false : results.includes(undefined) ? undefined : true;
+		case 'any':
+			return results.includes(true) ? true : results.includes(undefined) ? undefined : false;
+	}
+}
+
+// Parse `all(unix, not(feature = "std"))`; undefined for anything else
+function parseCfg(text: string): CfgPredicate | undefined {
+	const tokens = text.match(/\w+|"(?:[^"\\]|\\.)*"|[(),=]|\S/g) || [];
+	let i = 0;
+
+	const parsePredicate = (): CfgPredicate | undefined => {
+		const name = tokens[i++];
+		if (!name || !/^\w+$/.test(name)) {
+			return undefined;
+		}
+		if (tokens[i] === '=') {
+			const literal = tokens[i + 1];
+			if (!literal || !literal.startsWith('"')) {
+				return undefined;
+			}
+			i += 2;
+			return { name, value: literal.slice(1, -1).replace(/\\(.)/g, '$1') };
+		}
+		if (tokens[i] !== '(') {
+			return { name };
+		}
+		if (name !== 'all' && name !== 'any' && name !== 'not') {
+			return undefined;
+		}
+		i++;
+		const operands: CfgPredicate[] = [];
+		while (tokens[i] !== ')') {
+			const operand = parsePredicate();
+			if (!operand) {
+				return undefined;
+			}
+			operands.push(operand);
+			if (tokens[i] === ',') {
+				i++;
+			} else if (tokens[i] !== ')') {
+				return undefined;
+			}
+		}
+		i++;
+		return { operator: name, operands };
+	};
+
+	const predicate = parsePredicate();
+	return predicate && i === tokens.length ? predicate : undefined;
+}
+
+// Options of the host target as Node sees it, for when rustc cannot be run
+function nodeHostCfg(): CfgOptions {
+	const os: { [platform: string]: string } = { win32: 'windows', darwin: 'macos' };
+	const arch: { [arch: string]: string } = { x64: 'x86_64', arm64: 'aarch64', ia32: 'x86', arm: 'arm' };
+	const family = process.platform === 'win32' ? 'windows' : 'unix';
+	const pointerWidth = ['x64', 'arm64', 'ppc64', 's390x', 'riscv64', 'loong64'].includes(process.arch) ? '64' : '32';
+	return {
+		names: new Set([family, 'debug_assertions']),
+		values: new Map([
+			['target_os', new Set([os[process.platform] || process.platform])],
+			['target_family', new Set([family])],
+			['target_arch', new Set([arch[process.arch] || process.arch])],
+			['target_pointer_width', new Set([pointerWidth])],
+			['target_endian', new Set([process.arch === 's390x' ? 'big' : 'little'])],
+			['panic', new Set(['unwind'])]
+		])
+	};
+}
+
+// Host target options of the workspace folders' toolchains, read with `rustc --print cfg` on first use
+export class HostCfg {
+	private _options = new Map<string, Promise<CfgOptions>>();
+
+	constructor(private readonly _log: (message: string) => void) {}
+
+	// Options of the toolchain used in a folder (which may pin one with rust-toolchain.toml)
+	public options(folder: string): Promise<CfgOptions> {
+		let options = this._options.get(folder);
+		if (!options) {
+			options = this._load(folder);
+			this._options.set(folder, options);
+		}
+		return options;
+	}
+
+	private async _load(folder: string): Promise<CfgOptions> {
+		try {
+			const { stdout } = await execFilePromise('rustc', ['--print', 'cfg'], { cwd: folder });
+			return parseCfgOutput(stdout);
+		} catch (error) {
+			this._log(`rustc --print cfg failed in ${folder}, using the host platform: ${error instanceof Error ? error.message : error}`);
+			return nodeHostCfg();
+		}
+	}
+}
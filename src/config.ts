@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+
+export const CONFIG_SECTION = 'rustDocsSidebar';
+
+// Where documentation is looked up: the workspace's own sources, dependency crate sources and the toolchain's rustdoc
+export type DocSource = 'workspace' | 'dependencies' | 'toolchain';
+
+// Where impl blocks are found: rust-analyzer's providers, the extension's own source index, or rust-analyzer when it runs with the index as fallback
+export type LookupBackend = 'auto' | 'rust-analyzer' | 'source-index';
+
+// How methods and impls whose #[cfg] does not hold in the current build are shown
+export type UnavailableItems = 'dim' | 'hide';
+
+export interface SidebarConfig {
+	// Symbols and methods with fewer documentation sentences are not shown
+	minDocSentences: number;
+	maxHistoryEntries: number;
+	maxRecentItems: number;
+	maxSearchResults: number;
+	// Lines scanned above a type definition for its #[derive(...)] attributes
+	maxDocLinesToScan: number;
+	hideUndocumentedMethods: boolean;
+	showPrivateItems: boolean;
+	followCursor: boolean;
+	// Milliseconds the cursor has to rest on a symbol before it is looked up
+	lookupDelay: number;
+	// Keep parsed registry and toolchain sources on disk between sessions
+	diskCache: boolean;
+	docSources: DocSource[];
+	lookupBackend: LookupBackend;
+	unavailableItems: UnavailableItems;
+}
+
+// Defaults match the "default" values contributed in package.json
+const DEFAULT_CONFIG: SidebarConfig = {
+	minDocSentences: 3,
+	maxHistoryEntries: 100,
+	maxRecentItems: 20,
+	maxSearchResults: 50,
+	maxDocLinesToScan: 30,
+	hideUndocumentedMethods: true,
+	showPrivateItems: true,
+	followCursor: true,
+	lookupDelay: 200,
+	diskCache: true,
+	docSources: ['workspace', 'dependencies', 'toolchain'],
+	lookupBackend: 'auto',
+	unavailableItems: 'dim'
+};
+
+// Read the current settings; non-numeric or negative counts fall back to their defaults
+export function readConfig(): SidebarConfig {
+	const settings = vscode.workspace.getConfiguration(CONFIG_SECTION);
+	const count = (key: keyof SidebarConfig, minimum: number = 0): number => {
+		const value = settings.get<number>(key, DEFAULT_CONFIG[key] as number);
+		return typeof value === 'number' && Number.isFinite(value) && value >= minimum ? Math.floor(value) : DEFAULT_CONFIG[key] as number;
+	};
+
+	return {
+		minDocSentences: count('minDocSentences'),
+		maxHistoryEntries: count('maxHistoryEntries', 1),
+		maxRecentItems: count('maxRecentItems'),
+		maxSearchResults: count('maxSearchResults', 1),
+		maxDocLinesToScan: count('maxDocLinesToScan'),
+		hideUndocumentedMethods: settings.get<boolean>('hideUndocumentedMethods', DEFAULT_CONFIG.hideUndocumentedMethods),
+		showPrivateItems: settings.get<boolean>('showPrivateItems', DEFAULT_CONFIG.showPrivateItems),
+		followCursor: settings.get<boolean>('followCursor', DEFAULT_CONFIG.followCursor),
+		lookupDelay: count('lookupDelay'),
+		diskCache: settings.get<boolean>('diskCache', DEFAULT_CONFIG.diskCache),
+		docSources: settings.get<DocSource[]>('docSources', DEFAULT_CONFIG.docSources),
+		lookupBackend: settings.get<LookupBackend>('lookupBackend', DEFAULT_CONFIG.lookupBackend),
+		unavailableItems: settings.get<UnavailableItems>('unavailableItems', DEFAULT_CONFIG.unavailableItems)
+	};
+}
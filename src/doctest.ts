@@ -0,0 +1,56 @@
+import { execFile } from 'child_process';
+
+// Longest a doctest run may take, including building the crate
+const DOCTEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface DoctestResult {
+	status: 'passed' | 'failed' | 'notFound';
+	// "2 passed; 0 failed", or why nothing ran
+	summary: string;
+	// Combined cargo and test output
+	output: string;
+}
+
+// Outcome of a `cargo test --doc` run from its output. Without a "test result:" line the crate or the doctest
+// harness failed to build; a run that passed nothing matched no doctest
+export function parseDoctestOutput(output: string, exitedCleanly: boolean): DoctestResult {
+	const result = output.match(/test result: (\w+)\. (\d+) passed; (\d+) failed/);
+	if (!result) {
+		return { status: 'failed', summary: exitedCleanly ? 'No doctests were run' : 'Build failed', output };
+	}
+	const [, outcome, passed, failed] = result;
+	if (outcome === 'ok' && passed === '0' && failed === '0') {
+		return { status: 'notFound', summary: 'No doctest matched', output };
+	}
+	return { status: outcome === 'ok' && exitedCleanly ? 'passed' : 'failed', summary: `${passed} passed; ${failed} failed`, output };
+}
+
+// Test name filter for the example at a line of an item's docs. Test names read "src/lib.rs - Foo::new (line 6)",
+// so the separator and the line keep out same-named items of other modules, other items whose paths start the same
+// ("Foo::new_with") and the item's other examples
+export function doctestFilter(itemPath: string, line: number): string {
+	return ` - ${itemPath} (line ${line})`;
+}
+
+// Run the doctest of the example at a line of an item's docs in a workspace package, from the workspace root
+export function runDoctest(workspaceRoot: string, packageName: string, itemPath: string, line: number): Promise<DoctestResult> {
+	return new Promise(resolve => {
+		execFile(
+			'cargo',
+			['test', '--doc', '--package', packageName, doctestFilter(itemPath, line)],
+			{ cwd: workspaceRoot, timeout: DOCTEST_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 },
+			(error, stdout, stderr) => {
+				const output = `${stderr}${stdout}`.trim();
+				if (error && error.killed) {
+					resolve({ status: 'failed', summary: 'Timed out', output });
+					return;
+				}
+				if (error && typeof error.code === 'string') {
+					resolve({ status: 'failed', summary: `Could not run cargo: ${error.message}`, output });
+					return;
+				}
+				resolve(parseDoctestOutput(output, !error));
+			}
+		);
+	});
+}
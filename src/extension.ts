@@ -2,19 +2,101 @@ import * as vscode from 'vscode';
 import * as child_process from 'child_process';
 import * as util from 'util';
 import * as path from 'path';
+import * as fs from 'fs';
 import hljs from 'highlight.js/lib/core';
 import rust from 'highlight.js/lib/languages/rust';
+import { loadSearchIndex, RustdocSearchIndex } from './searchIndex';
+import { renderRustdocPage } from './rustdocPage';
+import { renderMarkdown, escapeHtml, exampleLines, isIntraDocPath, DoctestTarget, MarkdownContext, sourceLinkOpen } from './markdown';
+import { CONFIG_SECTION, DocSource, readConfig } from './config';
+import { LookupScheduler, throwIfCancelled } from './lookupScheduler';
+import { findMethodItem, ImplIndex, IndexedImplBlock, implTargetName } from './implIndex';
+import { ImplBackend, ImplTarget, RustAnalyzerBackend, SourceIndexBackend } from './implBackend';
+import { CargoMetadata } from './cargoMetadata';
+import { CfgOptions, cfgPredicate, evaluateCfg, HostCfg, joinCfg } from './cfg';
+import { runDoctest } from './doctest';
+import { DerefChainHost, followDerefChain, getDefinitionLocation, resolveTypeAlias } from './typeChain';
+import { ItemKind, itemsAt, ItemStability, itemStability, methodReceiver, moduleSections, parseRustFile, RustItem, UsePath, useTreePaths } from './rustParser';
 
 hljs.registerLanguage('rust', rust);
 
 const execFilePromise = util.promisify(child_process.execFile);
 
-// Constants
-const MIN_DOC_SENTENCES = 3;
-const MAX_GREP_CONTEXT_LINES = 1000;
-const MAX_HISTORY_ENTRIES = 20;
-const MAX_DOC_LINES_TO_SCAN = 30;
-const MAX_SIGNATURE_CONTINUATION_LINES = 20;
+// execFile whose child process is killed when the token is cancelled (the promise then rejects with CancellationError)
+async function execFileCancellable(file: string, args: string[], options: { cwd?: string; maxBuffer?: number }, token?: vscode.CancellationToken): Promise<{ stdout: string }> {
+	throwIfCancelled(token);
+	const controller = new AbortController();
+	const subscription = token?.onCancellationRequested(() => controller.abort());
+	try {
+		return await execFilePromise(file, args, { ...options, signal: controller.signal });
+	} catch (error) {
+		throwIfCancelled(token);
+		throw error;
+	} finally {
+		subscription?.dispose();
+	}
+}
+
+// Settings, re-read whenever the rustDocsSidebar configuration changes
+let config = readConfig();
+
+function isDocSourceEnabled(source: DocSource): boolean {
+	return config.docSources.includes(source);
+}
+
+// Bump when parseImplBlocks changes its output, so impl data cached on disk is parsed again
+const IMPL_PARSER_VERSION = 6;
+
+// Directory for the on-disk impl cache, set on activation
+let implCacheDir: string | undefined;
+
+// Impl blocks and methods per source file, shared by all lookups
+const implIndex = new ImplIndex(
+	parseImplBlocks,
+	() => config.diskCache ? implCacheDir : undefined,
+	() => JSON.stringify([IMPL_PARSER_VERSION, config.minDocSentences])
+);
+
+// Package graph per workspace folder, for crate names, versions, features and source roots
+const cargoMetadata = new CargoMetadata(message => outputChannel.appendLine(message));
+// Host target options per workspace folder, which #[cfg] predicates are evaluated against along with the features
+const hostCfg = new HostCfg(message => outputChannel.appendLine(message));
+
+const rustAnalyzerBackend = new RustAnalyzerBackend(implIndex);
+const sourceIndexBackend = new SourceIndexBackend(implIndex);
+
+// Backends for the lookupBackend setting, in the order they are asked
+function implBackends(): ImplBackend[] {
+	switch (config.lookupBackend) {
+		case 'rust-analyzer':
+			return [rustAnalyzerBackend];
+		case 'source-index':
+			return [sourceIndexBackend];
+		default:
+			return vscode.extensions.getExtension('rust-lang.rust-analyzer')?.isActive
+				? [rustAnalyzerBackend, sourceIndexBackend]
+				: [sourceIndexBackend];
+	}
+}
+
+// The first answer of the configured backends that is neither empty nor undefined
+async function queryBackends<T>(query: (backend: ImplBackend) => Promise<T>, token?: vscode.CancellationToken): Promise<T | undefined> {
+	for (const backend of implBackends()) {
+		try {
+			const result = await query(backend);
+			if (result !== undefined && !(Array.isArray(result) && result.length === 0)) {
+				return result;
+			}
+		} catch (error) {
+			throwIfCancelled(token);
+			outputChannel.appendLine(`Lookup with ${backend.name} failed: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+	return undefined;
+}
+
+// Crates whose items are documented by the toolchain's rustdoc rather than parsed from source
+const TOOLCHAIN_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro']);
 
 // Rust language keywords that should be ignored
 const RUST_KEYWORDS = new Set([
@@ -60,12 +142,19 @@ function isPathSafe(filePath: string, workspaceFolder?: vscode.WorkspaceFolder):
 	return false;
 }
 
-// Strip grep output prefix (filename.rs: or filename.rs-)
-function stripGrepPrefix(line: string): string {
-	const match = line.match(/^[^:]+\.rs[:|-]/);
-	return match ? line.substring(match[0].length) : line;
+// Doc path validation: only rustdoc HTML files under the given documentation root
+function isDocPathSafe(filePath: string, docsRoot: string): boolean {
+	const absolutePath = path.resolve(filePath);
+	return absolutePath.startsWith(path.resolve(docsRoot) + path.sep) && absolutePath.endsWith('.html');
+}
+
+// Resolve the rustdoc HTML root of the active toolchain (the directory holding std/, core/ and search-index*.js)
+async function getToolchainDocsRoot(cwd?: string, token?: vscode.CancellationToken): Promise<string> {
+	const { stdout } = await execFileCancellable('rustup', ['doc', '--path'], { cwd }, token);
+	return path.dirname(stdout.trim());
 }
 
+
 // Count sentences in documentation text
 function countDocSentences(text: string): number {
 	const sentences = text.split(/[.!?](?:\s+|$)/).filter(s => s.trim().length > 0);
@@ -73,21 +162,84 @@ function countDocSentences(text: string): number {
 }
 
 // Check if documentation meets minimum quality threshold
-function hasMinimumDocs(doc: string, minSentences: number = MIN_DOC_SENTENCES): boolean {
+function hasMinimumDocs(doc: string, minSentences: number = config.minDocSentences): boolean {
 	return countDocSentences(doc) >= minSentences;
 }
 
+// What a page shows, stored instead of its HTML so history and bookmarks can be persisted and re-rendered
+interface ItemReference {
+	kind: 'symbol' | 'method' | 'rustdoc' | 'intraDocLink' | 'crate' | 'module';
+	// Symbol under the cursor, method name, intra-doc link target or crate name
+	symbol: string;
+	// Source file (rustdoc HTML file for 'rustdoc', library root file for 'crate')
+	filePath: string;
+	// For 'module': line of an inline `mod name {`, or -1 for the module of the whole file
+	line: number;
+	character?: number;
+	// Type owning a method, or the type "Self" refers to in an intra-doc link
+	parent?: string;
+	// Anchor on a rustdoc page, e.g. "method.retain"
+	anchor?: string;
+	// Header of the impl block a method was listed under
+	implHeader?: string;
+}
+
 interface NavigationEntry {
-	content: string;
 	title: string;
+	item: ItemReference;
+	// Rendered HTML, cached for the session only
+	content?: string;
+}
+
+// A sidebar tab: its own back/forward history, optionally pinned so it stops following the cursor
+interface DocTab {
+	history: NavigationEntry[];
+	historyIndex: number;
+	pinned: boolean;
+}
+
+// Limit a tab's history to the configured number of entries, dropping the oldest first and keeping the current one
+function trimHistory(tab: DocTab) {
+	const start = Math.max(0, Math.min(tab.historyIndex, tab.history.length - config.maxHistoryEntries));
+	tab.history = tab.history.slice(start, start + config.maxHistoryEntries);
+	tab.historyIndex -= start;
+}
+
+interface DocPage {
+	title: string;
+	content: string;
+}
+
+// Keys of the persisted sidebar state in workspaceState
+const TABS_STATE_KEY = 'rustDocsSidebar.tabs';
+const RECENT_STATE_KEY = 'rustDocsSidebar.recent';
+const BOOKMARKS_STATE_KEY = 'rustDocsSidebar.bookmarks';
+
+const PLACEHOLDER_CONTENT = 'Select a Rust symbol to view documentation';
+
+// Identity of an item, used to deduplicate recent items and match bookmarks
+function itemKey(item: ItemReference): string {
+	return JSON.stringify([item.kind, item.symbol, item.filePath, item.line, item.character ?? 0, item.parent ?? '', item.anchor ?? '']);
 }
 
 class RustDocsProvider implements vscode.WebviewViewProvider {
 	private _view?: vscode.WebviewView;
-	private _history: NavigationEntry[] = [];
-	private _historyIndex: number = -1;
-
-	constructor(private readonly _extensionUri: vscode.Uri) {}
+	private _tabs: DocTab[] = [{ history: [], historyIndex: -1, pinned: false }];
+	private _activeTab: number = 0;
+	private _recent: NavigationEntry[] = [];
+	private _bookmarks: NavigationEntry[] = [];
+	// The navigation being rendered by showItem
+	private _navigation?: vscode.CancellationTokenSource;
+
+	constructor(private readonly _extensionUri: vscode.Uri, private readonly _state: vscode.Memento) {
+		const saved = _state.get<{ tabs: DocTab[]; activeTab: number }>(TABS_STATE_KEY);
+		if (saved && saved.tabs.length > 0) {
+			this._tabs = saved.tabs;
+			this._activeTab = Math.min(saved.activeTab, saved.tabs.length - 1);
+		}
+		this._recent = _state.get<NavigationEntry[]>(RECENT_STATE_KEY, []);
+		this._bookmarks = _state.get<NavigationEntry[]>(BOOKMARKS_STATE_KEY, []);
+	}
 
 	public resolveWebviewView(
 		webviewView: vscode.WebviewView,
@@ -107,12 +259,18 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 					const methodName = message.methodName;
 					const structName = message.structName;
 					const filePath = message.filePath;
+					const line = Number(message.line);
+					const implHeader = message.implHeader ? String(message.implHeader) : undefined;
 
 					// Validate inputs
 					if (!isValidRustIdentifier(methodName) || !isValidRustIdentifier(structName)) {
 						outputChannel.appendLine(`Invalid identifier: ${methodName} or ${structName}`);
 						return;
 					}
+					if (!Number.isInteger(line) || line < 0) {
+						outputChannel.appendLine(`Invalid line: ${message.line}`);
+						return;
+					}
 
 					const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
 					if (!isPathSafe(filePath, workspaceFolder)) {
@@ -121,12 +279,149 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 					}
 
 					outputChannel.appendLine(`Clicked method: ${methodName} for struct ${structName}`);
-					const methodDocs = await getMethodDocumentation(methodName, structName, filePath);
-					this.updateContent(methodDocs, `${structName}::${methodName}`);
+					await this.showItem({ kind: 'method', symbol: methodName, parent: structName, filePath, line, implHeader });
+				} else if (message.command === 'search') {
+					const query = String(message.query || '');
+					try {
+						const indexes = await getSearchIndexes();
+						if (indexes.length === 0) {
+							throw new Error('No rustdoc search index: enable toolchain docs in the rustDocsSidebar.docSources setting or run `cargo doc`');
+						}
+						// Result URLs are absolute, since they may come from different doc roots
+						const results = indexes
+							.flatMap(index => index.search(query, config.maxSearchResults).map(result => ({ ...result, url: path.join(index.docsRoot, result.url) })))
+							.sort((a, b) => b.score - a.score)
+							.slice(0, config.maxSearchResults)
+							.map(result => ({
+								title: result.fullPath,
+								kind: result.item.kind,
+								url: result.url,
+								desc: result.item.desc
+							}));
+						webviewView.webview.postMessage({ command: 'searchResults', query, results });
+					} catch (error) {
+						const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+						outputChannel.appendLine(`Search failed: ${errorMessage}`);
+						webviewView.webview.postMessage({ command: 'searchResults', query, results: [], error: errorMessage });
+					}
+				} else if (message.command === 'openSearchResult') {
+					const [htmlPath, anchor] = String(message.url || '').split('#');
+					await this.showRustdocPage(htmlPath, anchor);
+				} else if (message.command === 'openDocPage') {
+					await this.showRustdocPage(String(message.filePath || ''), message.anchor ? String(message.anchor) : undefined);
+				} else if (message.command === 'openIntraDocLink') {
+					const target = String(message.target || '');
+					const filePath = String(message.filePath || '');
+					const selfType = String(message.selfType || '');
+
+					// Validate inputs
+					if (!isIntraDocPath(target) || (selfType && !isValidRustIdentifier(selfType))) {
+						outputChannel.appendLine(`Invalid intra-doc link: ${target}`);
+						return;
+					}
+
+					const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+					if (filePath && !isPathSafe(filePath, workspaceFolder)) {
+						outputChannel.appendLine(`Unsafe file path: ${filePath}`);
+						return;
+					}
+
+					outputChannel.appendLine(`Clicked intra-doc link: ${target}`);
+					await this.showItem({ kind: 'intraDocLink', symbol: target, parent: selfType, filePath, line: 0 });
+				} else if (message.command === 'openCrateRoot') {
+					const filePath = String(message.filePath || '');
+					const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+					if (!isPathSafe(filePath, workspaceFolder)) {
+						outputChannel.appendLine(`Unsafe file path: ${filePath}`);
+						return;
+					}
+					await this.showItem({ kind: 'crate', symbol: path.basename(filePath), filePath, line: 0 });
+				} else if (message.command === 'showModuleItem' || message.command === 'showModule') {
+					const filePath = String(message.filePath || '');
+					const name = String(message.name || '');
+					const line = Number(message.line);
+					const character = Number(message.character) || 0;
+
+					// Validate inputs
+					if (!isValidRustIdentifier(name) || !Number.isInteger(line) || line < -1) {
+						outputChannel.appendLine(`Invalid module item: ${name}`);
+						return;
+					}
+
+					const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+					if (!isPathSafe(filePath, workspaceFolder)) {
+						outputChannel.appendLine(`Unsafe file path: ${filePath}`);
+						return;
+					}
+
+					if (message.command === 'showModule') {
+						await this.showItem({ kind: 'module', symbol: name, filePath, line });
+					} else {
+						await this.showItem({ kind: 'symbol', symbol: name, filePath, line: Math.max(line, 0), character });
+					}
+				} else if (message.command === 'copyExample') {
+					await vscode.env.clipboard.writeText(String(message.code || ''));
+				} else if (message.command === 'insertExample') {
+					// The sidebar has focus; insert into the editor that had it before
+					const editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
+					if (!editor) {
+						webviewView.webview.postMessage({ command: 'exampleResult', id: message.id, status: 'failed', summary: 'No editor to insert the example into' });
+						return;
+					}
+					const code = String(message.code || '');
+					await editor.edit(builder => editor.selections.forEach(selection => builder.replace(selection, code)));
+					await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+				} else if (message.command === 'runDoctest') {
+					const packageName = String(message.packageName || '');
+					const testPath = String(message.path || '');
+					const line = Number(message.line);
+
+					// Validate inputs: the package must be a workspace member, the test filter must not read as an option
+					const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+					const graph = cwd ? await cargoMetadata.graph(cwd) : undefined;
+					if (!graph || !graph.packages.some(pkg => pkg.isWorkspaceMember && pkg.name === packageName)) {
+						outputChannel.appendLine(`Not a workspace package: ${packageName}`);
+						return;
+					}
+					if (!testPath || testPath.startsWith('-') || /[\x00-\x1f]/.test(testPath) || !Number.isInteger(line) || line < 1) {
+						outputChannel.appendLine(`Invalid doctest: ${testPath} (line ${line})`);
+						return;
+					}
+
+					outputChannel.appendLine(`Running the doctest of ${packageName} at ${testPath} (line ${line})`);
+					const result = await runDoctest(graph.workspaceRoot, packageName, testPath, line);
+					outputChannel.appendLine(`Doctest of ${testPath} (line ${line}): ${result.summary}`);
+					webviewView.webview.postMessage({ command: 'exampleResult', id: message.id, ...result });
+				} else if (message.command === 'openExternal') {
+					const url = String(message.url || '');
+
+					// Only web links are handed to the external opener
+					if (!/^https?:\/\//i.test(url)) {
+						outputChannel.appendLine(`Unsupported link: ${url}`);
+						return;
+					}
+					await vscode.env.openExternal(vscode.Uri.parse(url));
 				} else if (message.command === 'goBack') {
 					this.goBack();
 				} else if (message.command === 'goForward') {
 					this.goForward();
+				} else if (message.command === 'toggleBookmark') {
+					this.toggleBookmark();
+				} else if (message.command === 'openSaved') {
+					const list = message.list === 'bookmarks' ? this._bookmarks : this._recent;
+					const entry = list[Number(message.index)];
+					if (entry) {
+						await this.showItem(entry.item);
+					}
+				} else if (message.command === 'togglePin') {
+					this._tab.pinned = !this._tab.pinned;
+					this._render();
+				} else if (message.command === 'newTab') {
+					this.newTab();
+				} else if (message.command === 'selectTab') {
+					this.selectTab(Number(message.index));
+				} else if (message.command === 'closeTab') {
+					this.closeTab(Number(message.index));
 				} else if (message.command === 'openFile') {
 					const filePath = message.filePath;
 					const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
@@ -150,33 +445,41 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 			}
 		});
 
-		webviewView.webview.html = this._getHtmlForWebview(webviewView.webview, 'Select a Rust symbol to view documentation', '', false, false);
+		this._render();
+	}
+
+	private get _tab(): DocTab {
+		return this._tabs[this._activeTab];
+	}
+
+	// Whether cursor moves should replace the page (following is enabled and the active tab is not pinned)
+	public get isFollowingCursor(): boolean {
+		return config.followCursor && !this._tab.pinned;
 	}
 
-	public updateContent(content: string, title: string = '', addToHistory: boolean = true) {
+	public updateContent(content: string, title: string = '', item?: ItemReference) {
 		if (this._view) {
 			// Filter out invalid/partial symbols
-			const isInvalidSymbol = content.includes('Use rust-analyzer hover') ||
-			                        (title.length === 1 && /^[a-z]$/.test(title));
+			const isInvalidSymbol = title.length === 1 && /^[a-z]$/.test(title);
 
-			// Add to history (unless we're navigating, it's placeholder content, invalid symbol, or identical to the last entry)
-			const lastEntry = this._historyIndex >= 0 ? this._history[this._historyIndex] : null;
+			// Add to the active tab's history (unless there's nothing to restore it from, it's placeholder content, invalid symbol, or identical to the last entry)
+			const tab = this._tab;
+			const lastEntry = tab.historyIndex >= 0 ? tab.history[tab.historyIndex] : null;
 			const isDuplicate = lastEntry && lastEntry.title === title && lastEntry.content === content;
 
-			if (addToHistory && !content.includes('No hover information available') && !isInvalidSymbol && !isDuplicate) {
+			if (item && !content.includes('No hover information available') && !isInvalidSymbol && !isDuplicate) {
 				// If we're in the middle of history, clear forward history
-				if (this._historyIndex >= 0 && this._historyIndex < this._history.length - 1) {
-					this._history = this._history.slice(0, this._historyIndex + 1);
+				if (tab.historyIndex >= 0 && tab.historyIndex < tab.history.length - 1) {
+					tab.history = tab.history.slice(0, tab.historyIndex + 1);
 				}
 
-				this._history.push({ content, title });
-				this._historyIndex = this._history.length - 1;
+				tab.history.push({ title, item, content });
+				tab.historyIndex = tab.history.length - 1;
 
-				// Limit history to MAX_HISTORY_ENTRIES
-				if (this._history.length > MAX_HISTORY_ENTRIES) {
-					this._history.shift();
-					this._historyIndex = this._history.length - 1;
-				}
+				trimHistory(tab);
+
+				this._addRecent({ title, item });
+				this._saveState();
 			}
 
 			// Don't update UI for invalid symbols
@@ -184,35 +487,192 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 				return;
 			}
 
-			const canGoBack = this._historyIndex > 0;
-			const canGoForward = this._historyIndex < this._history.length - 1;
+			const canGoBack = tab.historyIndex > 0;
+			const canGoForward = tab.historyIndex < tab.history.length - 1;
 
 			this._view.webview.html = this._getHtmlForWebview(this._view.webview, content, title, canGoBack, canGoForward);
 		}
 	}
 
-	private goBack() {
-		if (this._historyIndex > 0) {
-			this._historyIndex--;
-			const entry = this._history[this._historyIndex];
-			const canGoBack = this._historyIndex > 0;
-			const canGoForward = this._historyIndex < this._history.length - 1;
-			if (this._view) {
-				this._view.webview.html = this._getHtmlForWebview(this._view.webview, entry.content, entry.title, canGoBack, canGoForward);
+	// Render a local rustdoc page into the sidebar and record it in the history
+	public async showRustdocPage(htmlPath: string, anchor?: string) {
+		outputChannel.appendLine(`Opening rustdoc page: ${htmlPath}${anchor ? '#' + anchor : ''}`);
+		await this.showItem({ kind: 'rustdoc', symbol: '', filePath: htmlPath, line: 0, anchor });
+	}
+
+	// Render an item and show it in the active tab. A newer navigation cancels this one, killing its child processes
+	public async showItem(item: ItemReference) {
+		this._navigation?.cancel();
+		const navigation = new vscode.CancellationTokenSource();
+		this._navigation = navigation;
+		let page: DocPage | null;
+		try {
+			page = await renderItemReference(item, navigation.token);
+		} catch (error) {
+			if (error instanceof vscode.CancellationError) {
+				return;
+			}
+			throw error;
+		} finally {
+			if (this._navigation === navigation) {
+				this._navigation = undefined;
 			}
+			navigation.dispose();
+		}
+		if (page) {
+			this.updateContent(page.content, page.title, item);
+		} else {
+			outputChannel.appendLine(`Could not show ${item.kind} ${item.symbol || item.filePath}`);
 		}
 	}
 
-	private goForward() {
-		if (this._historyIndex < this._history.length - 1) {
-			this._historyIndex++;
-			const entry = this._history[this._historyIndex];
-			const canGoBack = this._historyIndex > 0;
-			const canGoForward = this._historyIndex < this._history.length - 1;
-			if (this._view) {
-				this._view.webview.html = this._getHtmlForWebview(this._view.webview, entry.content, entry.title, canGoBack, canGoForward);
+	// Show (with a title) or clear the loading indicator without re-rendering the page
+	public setLoading(title?: string) {
+		this._view?.webview.postMessage({ command: 'loading', title });
+	}
+
+	// Settings that affect rendering changed: drop the cached HTML so every page is rendered again when shown
+	public refresh() {
+		for (const tab of this._tabs) {
+			trimHistory(tab);
+			for (const entry of tab.history) {
+				entry.content = undefined;
 			}
 		}
+		this._recent = this._recent.slice(0, config.maxRecentItems);
+		this._saveState();
+		this._render();
+	}
+
+	private _addRecent(entry: NavigationEntry) {
+		const key = itemKey(entry.item);
+		this._recent = [entry, ...this._recent.filter(recent => itemKey(recent.item) !== key)].slice(0, config.maxRecentItems);
+	}
+
+	private get _currentEntry(): NavigationEntry | undefined {
+		return this._tab.history[this._tab.historyIndex];
+	}
+
+	private _isBookmarked(entry: NavigationEntry | undefined): boolean {
+		return !!entry && this._bookmarks.some(bookmark => itemKey(bookmark.item) === itemKey(entry.item));
+	}
+
+	private toggleBookmark() {
+		const entry = this._currentEntry;
+		if (!entry) {
+			return;
+		}
+		if (this._isBookmarked(entry)) {
+			this._bookmarks = this._bookmarks.filter(bookmark => itemKey(bookmark.item) !== itemKey(entry.item));
+		} else {
+			this._bookmarks.push({ title: entry.title, item: entry.item });
+		}
+		this._render();
+	}
+
+	// Persist tabs (as item references, without rendered HTML), recent items and bookmarks
+	private _saveState() {
+		const tabs = this._tabs.map(tab => ({
+			pinned: tab.pinned,
+			historyIndex: tab.historyIndex,
+			history: tab.history.map(({ title, item }) => ({ title, item }))
+		}));
+		this._state.update(TABS_STATE_KEY, { tabs, activeTab: this._activeTab });
+		this._state.update(RECENT_STATE_KEY, this._recent);
+		this._state.update(BOOKMARKS_STATE_KEY, this._bookmarks);
+	}
+
+	private goBack() {
+		if (this._tab.historyIndex > 0) {
+			this._tab.historyIndex--;
+			this._render();
+		}
+	}
+
+	private goForward() {
+		if (this._tab.historyIndex < this._tab.history.length - 1) {
+			this._tab.historyIndex++;
+			this._render();
+		}
+	}
+
+	// Open a new tab starting at the current page, so the old tab keeps it while the new one moves on
+	private newTab() {
+		const entry = this._tab.history[this._tab.historyIndex];
+		this._tabs.push({ history: entry ? [entry] : [], historyIndex: entry ? 0 : -1, pinned: false });
+		this._activeTab = this._tabs.length - 1;
+		this._render();
+	}
+
+	private selectTab(index: number) {
+		if (Number.isInteger(index) && index >= 0 && index < this._tabs.length) {
+			this._activeTab = index;
+			this._render();
+		}
+	}
+
+	private closeTab(index: number) {
+		if (!Number.isInteger(index) || index < 0 || index >= this._tabs.length) {
+			return;
+		}
+		this._tabs.splice(index, 1);
+		if (this._tabs.length === 0) {
+			this._tabs.push({ history: [], historyIndex: -1, pinned: false });
+		}
+		if (this._activeTab > index || this._activeTab >= this._tabs.length) {
+			this._activeTab = Math.max(0, this._activeTab - 1);
+		}
+		this._render();
+	}
+
+	// Show the current entry of the active tab, re-rendering it first if it was restored from a previous session
+	private _render() {
+		this._saveState();
+		if (!this._view) {
+			return;
+		}
+		const tab = this._tab;
+		const entry = tab.history[tab.historyIndex];
+		const canGoBack = tab.historyIndex > 0;
+		const canGoForward = tab.historyIndex < tab.history.length - 1;
+
+		if (entry && entry.content === undefined) {
+			this._view.webview.html = this._getHtmlForWebview(this._view.webview, `<p>Loading ${escapeHtml(entry.title)}…</p>`, entry.title, canGoBack, canGoForward);
+			renderItemReference(entry.item).then(page => {
+				entry.content = page ? page.content : '<p>This item is no longer available</p>';
+			}, error => {
+				entry.content = `<p>Error fetching documentation: ${error instanceof Error ? error.message : 'Unknown error'}</p>`;
+			}).then(() => {
+				if (this._currentEntry === entry) {
+					this._render();
+				}
+			});
+			return;
+		}
+		this._view.webview.html = this._getHtmlForWebview(this._view.webview, entry?.content ?? PLACEHOLDER_CONTENT, entry?.title ?? '', canGoBack, canGoForward);
+	}
+
+	// Recent items and bookmarks, most recent first
+	private _renderSavedItems(): string {
+		const options = (list: NavigationEntry[], name: string) => list
+			.map((entry, index) => `<option value="${name}:${index}">${escapeHtml(entry.title || entry.item.symbol)}</option>`)
+			.join('');
+		return `<select class="nav-select" title="Recent items and bookmarks" onchange="openSaved(this.value)">
+					<option value="" selected>Recent…</option>
+					${this._bookmarks.length > 0 ? `<optgroup label="Bookmarks">${options(this._bookmarks, 'bookmarks')}</optgroup>` : ''}
+					${this._recent.length > 0 ? `<optgroup label="Recent">${options(this._recent, 'recent')}</optgroup>` : ''}
+				</select>`;
+	}
+
+	// Tab strip: one tab per open page, each showing the title of its current entry
+	private _renderTabBar(): string {
+		const tabs = this._tabs.map((tab, index) => {
+			const label = tab.history[tab.historyIndex]?.title || 'New Tab';
+			const classes = ['tab', index === this._activeTab ? 'active' : '', tab.pinned ? 'pinned' : ''].filter(name => name).join(' ');
+			const close = this._tabs.length > 1 ? `<span class="tab-close" title="Close" onclick="event.stopPropagation(); closeTab(${index});">×</span>` : '';
+			return `<div class="${classes}" title="${escapeHtml(label)}" onclick="selectTab(${index})"><span class="tab-title">${escapeHtml(label)}</span>${close}</div>`;
+		});
+		return `<div class="tab-bar">${tabs.join('')}<button class="tab-new" title="Open the current page in a new tab" onclick="newTab()">+</button></div>`;
 	}
 
 	private _getHtmlForWebview(webview: vscode.Webview, content: string, title: string, canGoBack: boolean, canGoForward: boolean) {
@@ -233,6 +693,66 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 					.hljs-meta { color: #808080; }
 					.hljs-attr, .hljs-variable { color: #9CDCFE; }
 
+					/* Rustdoc syntax highlighting (pages rendered from local rustdoc HTML) */
+					.comment, .doccomment { color: var(--vscode-editor-foreground); opacity: 0.6; font-style: italic; }
+					.kw, .kw-2, .prelude-ty, .bool-val, .self { color: #569CD6; }
+					.string { color: #CE9178; }
+					.number { color: #B5CEA8; }
+					.macro, .fn, .method, .tymethod { color: #DCDCAA; }
+					.struct, .enum, .trait, .type, .union, .primitive, .traitalias, .foreigntype { color: #4EC9B0; }
+					.attr, .lifetime { color: #808080; }
+					.where { display: block; padding-left: 1em; }
+					.item-info .stab {
+						font-size: 12px;
+						padding: 4px 6px;
+						margin: 4px 0;
+						border-left: 2px solid var(--vscode-editorWarning-foreground);
+						background: var(--vscode-textBlockQuote-background);
+					}
+					.docblock h2, .docblock h3, .docblock h4, .docblock h5 {
+						font-size: 1em;
+					}
+					table {
+						border-collapse: collapse;
+						margin: 8px 0;
+						font-size: 12px;
+					}
+					th, td {
+						border: 1px solid var(--vscode-panel-border);
+						padding: 2px 6px;
+					}
+					ul.rustdoc-members {
+						list-style: none;
+						padding-left: 0;
+					}
+					ul.rustdoc-members li {
+						margin-bottom: 12px;
+					}
+					ul.module-items {
+						list-style: none;
+						padding-left: 0;
+					}
+					ul.module-items li {
+						margin-bottom: 8px;
+					}
+					.member-summary {
+						font-size: 12px;
+						color: var(--vscode-descriptionForeground);
+						margin-top: 4px;
+					}
+					.rustdoc-impl {
+						margin: 4px 0;
+						font-size: 12px;
+					}
+					a.doc-link {
+						color: inherit;
+						text-decoration: none;
+						cursor: pointer;
+					}
+					a.doc-link:hover {
+						text-decoration: underline;
+					}
+
 					body {
 						padding: 10px;
 						color: var(--vscode-foreground);
@@ -289,6 +809,123 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 						cursor: pointer;
 						user-select: none;
 					}
+					.trait-impl {
+						margin: 6px 0;
+						font-size: 12px;
+					}
+					details.trait-impl {
+						margin-top: 6px;
+						color: var(--vscode-foreground);
+					}
+					details.doc-section {
+						margin: 8px 0;
+						font-size: inherit;
+						color: inherit;
+					}
+					details.doc-section > summary > h2, details.doc-section > summary > h3 {
+						display: inline;
+					}
+					details.doc-section.panics, details.doc-section.errors, details.doc-section.safety {
+						padding-left: 8px;
+						border-left: 2px solid;
+					}
+					.doc-section.panics {
+						border-color: var(--vscode-editorWarning-foreground);
+					}
+					.doc-section.errors {
+						border-color: var(--vscode-editorInfo-foreground);
+					}
+					.doc-section.safety {
+						border-color: var(--vscode-editorError-foreground);
+					}
+					.method-controls {
+						margin: 8px 0;
+						font-size: 12px;
+					}
+					.method-options {
+						display: flex;
+						flex-wrap: wrap;
+						align-items: center;
+						gap: 4px 10px;
+						margin-top: 4px;
+					}
+					.method-group-label {
+						margin: 8px 0 4px;
+						font-size: 12px;
+						color: var(--vscode-descriptionForeground);
+					}
+					.page-outline {
+						display: flex;
+						flex-wrap: wrap;
+						gap: 2px 8px;
+						margin-bottom: 8px;
+						font-size: 12px;
+					}
+					.page-outline:empty {
+						display: none;
+					}
+					.page-outline a.panics {
+						color: var(--vscode-editorWarning-foreground);
+					}
+					.page-outline a.errors {
+						color: var(--vscode-editorInfo-foreground);
+					}
+					.page-outline a.safety {
+						color: var(--vscode-editorError-foreground);
+					}
+					.crate-header {
+						margin-bottom: 8px;
+						font-size: 12px;
+						color: var(--vscode-descriptionForeground);
+					}
+					.crate-header a {
+						color: var(--vscode-textLink-foreground);
+						text-decoration: none;
+					}
+					.crate-version {
+						margin-left: 4px;
+					}
+					.crate-features {
+						margin-left: 8px;
+					}
+					.visibility {
+						font-size: 11px;
+						padding: 0 4px;
+						border-radius: 2px;
+						color: var(--vscode-badge-foreground);
+						background: var(--vscode-badge-background);
+					}
+					.item-badge {
+						font-size: 11px;
+						margin-left: 4px;
+						padding: 0 4px;
+						border-radius: 2px;
+						border: 1px solid var(--vscode-descriptionForeground);
+						color: var(--vscode-descriptionForeground);
+					}
+					.item-badge.unsafe {
+						border-color: var(--vscode-editorError-foreground);
+						color: var(--vscode-editorError-foreground);
+					}
+					.item-badge.deprecated,
+					.item-badge.unstable {
+						border-color: var(--vscode-editorWarning-foreground);
+						color: var(--vscode-editorWarning-foreground);
+					}
+					.unavailable {
+						opacity: 0.55;
+					}
+					.deprecated-item {
+						text-decoration: line-through;
+					}
+					.deprecation-note {
+						font-size: 12px;
+						margin-top: 4px;
+						color: var(--vscode-editorWarning-foreground);
+					}
+					.deprecation-note p {
+						display: inline;
+					}
 					a.method-link {
 						color: var(--vscode-textLink-foreground);
 						text-decoration: none;
@@ -323,135 +960,1474 @@ class RustDocsProvider implements vscode.WebviewViewProvider {
 						opacity: 0.4;
 						cursor: not-allowed;
 					}
-					.nav-title {
-						flex: 1;
-						font-size: 12px;
+					.loading {
+						display: none;
+						margin-bottom: 8px;
+						padding-left: 6px;
+						border-left: 2px solid var(--vscode-progressBar-background);
 						color: var(--vscode-descriptionForeground);
-						align-self: center;
+						font-size: 12px;
+					}
+					.loading.visible {
+						display: block;
+					}
+					.nav-select {
+						max-width: 90px;
+						color: var(--vscode-dropdown-foreground);
+						background: var(--vscode-dropdown-background);
+						border: 1px solid var(--vscode-dropdown-border, transparent);
+						font-size: 12px;
+					}
+					.nav-button.active {
+						background: var(--vscode-button-secondaryBackground, var(--vscode-button-background));
+						color: var(--vscode-button-secondaryForeground, var(--vscode-button-foreground));
+						outline: 1px solid var(--vscode-focusBorder);
+					}
+					.tab-bar {
+						display: flex;
+						flex-wrap: wrap;
+						gap: 2px;
+						margin-top: 4px;
+						border-bottom: 1px solid var(--vscode-panel-border);
+					}
+					.tab {
+						display: flex;
+						align-items: center;
+						gap: 4px;
+						max-width: 140px;
+						padding: 2px 6px;
+						font-size: 12px;
+						cursor: pointer;
+						color: var(--vscode-tab-inactiveForeground);
+						background: var(--vscode-tab-inactiveBackground);
+					}
+					.tab.active {
+						color: var(--vscode-tab-activeForeground);
+						background: var(--vscode-tab-activeBackground);
+						border-bottom: 1px solid var(--vscode-focusBorder);
+					}
+					.tab.pinned .tab-title::before {
+						content: '📌 ';
+					}
+					.tab-title {
 						overflow: hidden;
 						text-overflow: ellipsis;
 						white-space: nowrap;
 					}
-				</style>
-				<script>
-					const vscode = acquireVsCodeApi();
-					function showMethodDocs(fnName, structName, filePath) {
-						vscode.postMessage({
-							command: 'showMethodDocs',
-							methodName: fnName,
-							structName: structName,
-							filePath: filePath
-						});
+					.tab-close {
+						opacity: 0.6;
 					}
-					function goBack() {
-						vscode.postMessage({ command: 'goBack' });
+					.tab-close:hover {
+						opacity: 1;
 					}
-					function goForward() {
-						vscode.postMessage({ command: 'goForward' });
+					.tab-new {
+						background: none;
+						border: none;
+						color: var(--vscode-foreground);
+						cursor: pointer;
+						font-size: 14px;
+						padding: 0 6px;
 					}
-					function openFile(filePath, line) {
-						vscode.postMessage({ command: 'openFile', filePath: filePath, line: line });
+					.search-box {
+						position: relative;
+						margin-bottom: 4px;
 					}
-				</script>
-			</head>
-			<body>
-				<div class="nav-bar">
-					<button class="nav-button" onclick="goBack()" ${canGoBack ? '' : 'disabled'}>← Back</button>
-					<button class="nav-button" onclick="goForward()" ${canGoForward ? '' : 'disabled'}>Forward →</button>
+					.search-input {
+						width: 100%;
+						box-sizing: border-box;
+						padding: 4px 6px;
+						color: var(--vscode-input-foreground);
+						background: var(--vscode-input-background);
+						border: 1px solid var(--vscode-input-border, transparent);
+						border-radius: 2px;
+						font-family: var(--vscode-font-family);
+					}
+					.search-input:focus {
+						outline: 1px solid var(--vscode-focusBorder);
+					}
+					.search-results {
+						display: none;
+						position: absolute;
+						left: 0;
+						right: 0;
+						z-index: 10;
+						max-height: 60vh;
+						overflow-y: auto;
+						margin: 2px 0 0;
+						padding: 0;
+						list-style: none;
+						background: var(--vscode-editorWidget-background);
+						border: 1px solid var(--vscode-editorWidget-border, var(--vscode-panel-border));
+					}
+					.search-results.visible {
+						display: block;
+					}
+					.search-results li {
+						margin: 0;
+						padding: 4px 6px;
+						cursor: pointer;
+					}
+					.search-results li.selected, .search-results li:hover {
+						background: var(--vscode-list-hoverBackground);
+					}
+					.search-result-kind {
+						font-size: 11px;
+						margin-left: 6px;
+						color: var(--vscode-descriptionForeground);
+					}
+					.search-result-desc {
+						font-size: 11px;
+						color: var(--vscode-descriptionForeground);
+						white-space: nowrap;
+						overflow: hidden;
+						text-overflow: ellipsis;
+					}
+					.nav-title {
+						flex: 1;
+						font-size: 12px;
+						color: var(--vscode-descriptionForeground);
+						align-self: center;
+						overflow: hidden;
+						text-overflow: ellipsis;
+						white-space: nowrap;
+					}
+					.example-toolbar {
+						display: flex;
+						flex-wrap: wrap;
+						align-items: center;
+						gap: 4px;
+						margin-bottom: -4px;
+					}
+					.example-badges {
+						display: flex;
+						gap: 4px;
+						margin-right: auto;
+					}
+					.example-badge {
+						font-size: 11px;
+						padding: 0 4px;
+						border-radius: 2px;
+						color: var(--vscode-badge-foreground);
+						background: var(--vscode-badge-background);
+					}
+					.example-wrap .example-full, .example-wrap.show-hidden .example-visible {
+						display: none;
+					}
+					.example-wrap.show-hidden .example-full {
+						display: block;
+					}
+					.example-action {
+						background: var(--vscode-button-secondaryBackground, var(--vscode-button-background));
+						color: var(--vscode-button-secondaryForeground, var(--vscode-button-foreground));
+						border: none;
+						padding: 2px 6px;
+						cursor: pointer;
+						border-radius: 2px;
+						font-size: 11px;
+					}
+					.example-action:hover:not(:disabled) {
+						background: var(--vscode-button-secondaryHoverBackground, var(--vscode-button-hoverBackground));
+					}
+					.example-result {
+						margin: -8px 0 12px;
+						padding-left: 6px;
+						font-size: 12px;
+						border-left: 2px solid var(--vscode-descriptionForeground);
+					}
+					.example-result.passed {
+						border-left-color: var(--vscode-testing-iconPassed, green);
+					}
+					.example-result.failed {
+						border-left-color: var(--vscode-testing-iconFailed, red);
+					}
+					.example-result pre {
+						max-height: 240px;
+						overflow-y: auto;
+						font-size: 11px;
+					}
+				</style>
+				<script>
+					const vscode = acquireVsCodeApi();
+					function goBack() {
+						vscode.postMessage({ command: 'goBack' });
+					}
+					function goForward() {
+						vscode.postMessage({ command: 'goForward' });
+					}
+					function togglePin() {
+						vscode.postMessage({ command: 'togglePin' });
+					}
+					function toggleBookmark() {
+						vscode.postMessage({ command: 'toggleBookmark' });
+					}
+					function openSaved(value) {
+						const [list, index] = value.split(':');
+						if (list) {
+							vscode.postMessage({ command: 'openSaved', list: list, index: Number(index) });
+						}
+					}
+					function newTab() {
+						vscode.postMessage({ command: 'newTab' });
+					}
+					function selectTab(index) {
+						vscode.postMessage({ command: 'selectTab', index: index });
+					}
+					function closeTab(index) {
+						vscode.postMessage({ command: 'closeTab', index: index });
+					}
+					function openFile(filePath, line) {
+						vscode.postMessage({ command: 'openFile', filePath: filePath, line: line });
+					}
+
+					// Search box: queries are sent to the extension, results come back as a 'searchResults' message
+					let searchTimer;
+					let searchResults = [];
+					let selectedResult = 0;
+					function onSearchInput(input) {
+						const query = input.value;
+						vscode.setState({ ...(vscode.getState() || {}), searchQuery: query });
+						clearTimeout(searchTimer);
+						if (!query.trim()) {
+							renderSearchResults([]);
+							return;
+						}
+						searchTimer = setTimeout(() => vscode.postMessage({ command: 'search', query: query }), 150);
+					}
+					function onSearchKeyDown(event) {
+						if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+							const delta = event.key === 'ArrowDown' ? 1 : -1;
+							selectedResult = Math.max(0, Math.min(searchResults.length - 1, selectedResult + delta));
+							highlightSearchResult();
+							event.preventDefault();
+						} else if (event.key === 'Enter' && searchResults[selectedResult]) {
+							openSearchResult(searchResults[selectedResult]);
+						} else if (event.key === 'Escape') {
+							renderSearchResults([]);
+						}
+					}
+					function openSearchResult(result) {
+						renderSearchResults([]);
+						vscode.postMessage({ command: 'openSearchResult', url: result.url, title: result.title });
+					}
+					function highlightSearchResult() {
+						const items = document.querySelectorAll('.search-results li');
+						items.forEach((item, i) => item.classList.toggle('selected', i === selectedResult));
+						if (items[selectedResult]) {
+							items[selectedResult].scrollIntoView({ block: 'nearest' });
+						}
+					}
+					function renderSearchResults(results, error) {
+						const list = document.getElementById('search-results');
+						searchResults = results;
+						selectedResult = 0;
+						list.textContent = '';
+						if (error) {
+							const item = document.createElement('li');
+							item.textContent = error;
+							list.appendChild(item);
+						}
+						for (const result of results) {
+							const item = document.createElement('li');
+							const title = document.createElement('code');
+							title.textContent = result.title;
+							const kind = document.createElement('span');
+							kind.className = 'search-result-kind';
+							kind.textContent = result.kind;
+							item.append(title, kind);
+							if (result.desc) {
+								const desc = document.createElement('div');
+								desc.className = 'search-result-desc';
+								desc.textContent = result.desc;
+								item.appendChild(desc);
+							}
+							item.addEventListener('mousedown', event => {
+								event.preventDefault();
+								openSearchResult(result);
+							});
+							list.appendChild(item);
+						}
+						list.classList.toggle('visible', results.length > 0 || !!error);
+						highlightSearchResult();
+					}
+					window.addEventListener('message', event => {
+						const message = event.data;
+						const input = document.getElementById('search-input');
+						if (message.command === 'searchResults' && input && message.query === input.value) {
+							renderSearchResults(message.results, message.error);
+						} else if (message.command === 'loading') {
+							const indicator = document.getElementById('loading');
+							indicator.textContent = message.title ? 'Loading ' + message.title + '…' : '';
+							indicator.classList.toggle('visible', !!message.title);
+						} else if (message.command === 'exampleResult') {
+							const example = document.querySelector('.example-wrap[data-example-id="' + message.id + '"]');
+							const button = example ? example.querySelector('button[data-example-action="run"]') : null;
+							if (button) {
+								button.disabled = false;
+							}
+							if (example) {
+								showExampleResult(example, message);
+							}
+						}
+					});
+					// Example toolbars: show hidden lines, copy or insert the code as shown, or run the item's doctests and show the outcome below the example
+					let exampleCount = 0;
+					document.addEventListener('click', event => {
+						const button = event.target.closest ? event.target.closest('button[data-example-action]') : null;
+						const example = button ? button.closest('.example-wrap') : null;
+						const code = example ? example.querySelector('pre') : null;
+						if (!code) {
+							return;
+						}
+						if (!example.dataset.exampleId) {
+							example.dataset.exampleId = String(++exampleCount);
+						}
+						const action = button.dataset.exampleAction;
+						if (action === 'toggleHidden') {
+							const shown = example.classList.toggle('show-hidden');
+							button.textContent = shown ? 'Hide hidden lines' : 'Show hidden lines';
+						} else if (action === 'copy') {
+							vscode.postMessage({ command: 'copyExample', code: code.innerText });
+						} else if (action === 'insert') {
+							vscode.postMessage({ command: 'insertExample', id: example.dataset.exampleId, code: code.innerText });
+						} else if (action === 'run') {
+							button.disabled = true;
+							showExampleResult(example, { status: 'running', summary: 'Running doctest…' });
+							vscode.postMessage({ command: 'runDoctest', id: example.dataset.exampleId, packageName: button.dataset.package, path: button.dataset.doctest, line: Number(button.dataset.doctestLine) });
+						}
+					});
+					function showExampleResult(example, result) {
+						let box = example.nextElementSibling;
+						if (!box || !box.classList.contains('example-result')) {
+							box = document.createElement('div');
+							example.after(box);
+						}
+						box.className = 'example-result ' + result.status;
+						box.textContent = '';
+						const summary = document.createElement('div');
+						summary.textContent = (result.status === 'passed' ? '✓ ' : result.status === 'failed' ? '✗ ' : '') + result.summary;
+						box.appendChild(summary);
+						if (result.output) {
+							const details = document.createElement('details');
+							details.open = result.status === 'failed';
+							const label = document.createElement('summary');
+							label.textContent = 'Output';
+							const output = document.createElement('pre');
+							output.textContent = result.output;
+							details.append(label, output);
+							box.appendChild(details);
+						}
+					}
+					// Links inside rendered docs open their target in the sidebar; web links open externally
+					document.addEventListener('click', event => {
+						if (!event.target.closest) {
+							return;
+						}
+						const link = event.target.closest('a[data-method], a[data-doc-path], a[data-intra-doc], a[data-crate-root], a[data-item-file], a[data-module-file], a[data-source-file], a[href^="http"]');
+						if (!link) {
+							return;
+						}
+						event.preventDefault();
+						if (link.dataset.method) {
+							vscode.postMessage({
+								command: 'showMethodDocs',
+								methodName: link.dataset.method,
+								structName: link.dataset.parent,
+								filePath: link.dataset.filePath,
+								line: link.dataset.line,
+								implHeader: link.dataset.implHeader
+							});
+						} else if (link.dataset.docPath) {
+							vscode.postMessage({ command: 'openDocPage', filePath: link.dataset.docPath, anchor: link.dataset.docAnchor });
+						} else if (link.dataset.intraDoc) {
+							vscode.postMessage({ command: 'openIntraDocLink', target: link.dataset.intraDoc, filePath: link.dataset.filePath, selfType: link.dataset.selfType });
+						} else if (link.dataset.crateRoot) {
+							vscode.postMessage({ command: 'openCrateRoot', filePath: link.dataset.crateRoot });
+						} else if (link.dataset.itemFile) {
+							vscode.postMessage({ command: 'showModuleItem', filePath: link.dataset.itemFile, line: link.dataset.itemLine, character: link.dataset.itemCharacter, name: link.dataset.itemName });
+						} else if (link.dataset.moduleFile) {
+							vscode.postMessage({ command: 'showModule', filePath: link.dataset.moduleFile, line: link.dataset.moduleLine, name: link.textContent });
+						} else if (link.dataset.sourceFile) {
+							openFile(link.dataset.sourceFile, Number(link.dataset.sourceLine));
+						} else {
+							vscode.postMessage({ command: 'openExternal', url: link.getAttribute('href') });
+						}
+					});
+					window.addEventListener('DOMContentLoaded', () => {
+						const input = document.getElementById('search-input');
+						const state = vscode.getState();
+						if (input && state && state.searchQuery) {
+							input.value = state.searchQuery;
+						}
+						if (input) {
+							input.addEventListener('blur', () => renderSearchResults([]));
+						}
+
+						const controls = document.getElementById('method-controls');
+						if (controls && state && state.methodOptions) {
+							METHOD_OPTIONS.forEach(name => {
+								const field = controls.querySelector('[name="' + name + '"]');
+								if (field.type === 'checkbox') {
+									field.checked = !!state.methodOptions[name];
+								} else {
+									field.value = state.methodOptions[name] || field.value;
+								}
+							});
+							applyMethodFilter();
+						}
+
+						// Sections collapsed on earlier pages stay collapsed; the outline jumps to (and opens) a section
+						const collapsed = new Set((state && state.collapsedSections) || []);
+						const sections = document.querySelectorAll('details.doc-section');
+						const outline = document.getElementById('page-outline');
+						sections.forEach(section => {
+							if (collapsed.has(section.dataset.section)) {
+								section.open = false;
+							}
+							if (outline && sections.length > 1) {
+								const link = document.createElement('a');
+								link.href = '#';
+								link.className = section.className.replace('doc-section', '').trim();
+								link.textContent = section.querySelector('summary').textContent.trim();
+								link.addEventListener('click', event => {
+									event.preventDefault();
+									section.open = true;
+									section.scrollIntoView();
+								});
+								outline.appendChild(link);
+							}
+						});
+					});
+					// Method lists: filter by name, parameters or return type, group by receiver, sort, and hide
+					// const/unsafe/async functions. The options (not the filter text) carry over to other pages
+					const METHOD_GROUPS = [['self', 'Taking self'], ['&self', 'Taking &self'], ['&mut self', 'Taking &mut self'], ['none', 'Associated functions']];
+					const METHOD_OPTIONS = ['group', 'sort', 'const', 'unsafe', 'async'];
+					function applyMethodFilter() {
+						const controls = document.getElementById('method-controls');
+						if (!controls) {
+							return;
+						}
+						const field = name => controls.querySelector('[name="' + name + '"]');
+						const query = field('filter').value.trim().toLowerCase();
+						const hiddenQualifiers = ['const', 'unsafe', 'async'].filter(name => !field(name).checked);
+						const options = {};
+						METHOD_OPTIONS.forEach(name => options[name] = field(name).type === 'checkbox' ? field(name).checked : field(name).value);
+						vscode.setState({ ...(vscode.getState() || {}), methodOptions: options });
+
+						document.querySelectorAll('ul.method-list').forEach(list => {
+							if (!list.methodItems) {
+								list.methodItems = Array.from(list.querySelectorAll(':scope > li.method-item'));
+							}
+							const items = list.methodItems.filter(item =>
+								item.querySelector('code').textContent.toLowerCase().includes(query) &&
+								!item.dataset.qualifiers.split(' ').some(name => hiddenQualifiers.includes(name)));
+							if (options.sort === 'name') {
+								items.sort((a, b) => a.dataset.name.localeCompare(b.dataset.name));
+							}
+							list.textContent = '';
+							if (options.group) {
+								for (const [receiver, label] of METHOD_GROUPS) {
+									const members = items.filter(item => item.dataset.receiver === receiver);
+									if (members.length > 0) {
+										const heading = document.createElement('li');
+										heading.className = 'method-group-label';
+										heading.textContent = label;
+										list.append(heading, ...members);
+									}
+								}
+							} else {
+								list.append(...items);
+							}
+							// Lists left empty disappear along with their impl heading
+							const container = list.closest('details.trait-impl') || list;
+							container.hidden = items.length === 0;
+							if (container === list && list.previousElementSibling && list.previousElementSibling.tagName === 'H4') {
+								list.previousElementSibling.hidden = items.length === 0;
+							}
+						});
+					}
+					// Remember which sections are collapsed, by section name
+					document.addEventListener('toggle', event => {
+						const section = event.target;
+						if (!section.classList || !section.classList.contains('doc-section')) {
+							return;
+						}
+						const state = vscode.getState() || {};
+						const collapsed = new Set(state.collapsedSections || []);
+						if (section.open) {
+							collapsed.delete(section.dataset.section);
+						} else {
+							collapsed.add(section.dataset.section);
+						}
+						vscode.setState({ ...state, collapsedSections: [...collapsed] });
+					}, true);
+				</script>
+			</head>
+			<body>
+				<div class="search-box">
+					<input id="search-input" class="search-input" type="text" placeholder="Search Rust docs (e.g. Vec::retain)" autocomplete="off" oninput="onSearchInput(this)" onkeydown="onSearchKeyDown(event)">
+					<ul id="search-results" class="search-results"></ul>
+				</div>
+				${this._renderTabBar()}
+				<div class="nav-bar">
+					<button class="nav-button" onclick="goBack()" ${canGoBack ? '' : 'disabled'}>← Back</button>
+					<button class="nav-button" onclick="goForward()" ${canGoForward ? '' : 'disabled'}>Forward →</button>
+					<button class="nav-button" onclick="toggleBookmark()" title="${this._isBookmarked(this._currentEntry) ? 'Remove bookmark' : 'Bookmark this page'}" ${this._currentEntry ? '' : 'disabled'}>${this._isBookmarked(this._currentEntry) ? '★' : '☆'}</button>
+					${this._renderSavedItems()}
+					<button class="nav-button ${this._tab.pinned ? 'active' : ''}" onclick="togglePin()" title="${this._tab.pinned ? 'Follow the cursor again' : 'Keep this page while moving the cursor'}">${this._tab.pinned ? 'Pinned' : 'Pin'}</button>
 					${title ? `<div class="nav-title">${escapeHtml(title)}</div>` : ''}
 				</div>
+				<div id="loading" class="loading"></div>
+				<nav id="page-outline" class="page-outline"></nav>
 				${content}
 			</body>
 			</html>`;
 	}
 }
 
-async function getRustDocumentation(symbol: string, documentUri: vscode.Uri): Promise<string | null> {
-	try {
-		// Validate symbol is a valid Rust identifier
-		if (!isValidRustIdentifier(symbol)) {
-			outputChannel.appendLine(`Invalid symbol name: ${symbol}`);
-			return null;
-		}
+async function getRustDocumentation(symbol: string, documentUri: vscode.Uri, position?: vscode.Position, token?: vscode.CancellationToken): Promise<string | null> {
+	try {
+		// Validate symbol is a valid Rust identifier
+		if (!isValidRustIdentifier(symbol)) {
+			outputChannel.appendLine(`Invalid symbol name: ${symbol}`);
+			return null;
+		}
+
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
+		const cwd = workspaceFolder?.uri.fsPath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+		if (!cwd) {
+			return '<p>No workspace folder found</p>';
+		}
+
+		// Without an explicit position, document the symbol under the cursor
+		if (!position) {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				return null;
+			}
+			position = editor.selection.active;
+		}
+
+		const hoverInfo = await getHoverInfo(symbol, documentUri, position, token);
+		const definition = await getDefinitionLocation(documentUri, position);
+		const definitionPath = definition?.uri.fsPath;
+		throwIfCancelled(token);
+
+		// Modules and crates get a page listing their items
+		const modulePage = definition && await getModulePageAt(symbol, definition, cwd);
+		throwIfCancelled(token);
+		if (modulePage) {
+			return modulePage.content;
+		}
+
+		// Symbols defined in the toolchain sources get the full rustdoc page, and so do items `cargo doc` documented
+		const rustdocPage = definition && definitionPath && (
+			await getToolchainDocPage(symbol, definitionPath, hoverInfo, cwd, token) ||
+			await getCargoDocPage(symbol, definition, hoverInfo, cwd)
+		);
+		throwIfCancelled(token);
+		if (rustdocPage) {
+			return rustdocPage;
+		}
+
+		const result = await getStructMethods(symbol, documentUri, position, token);
+		if (hoverInfo) {
+			const content = await formatHoverInfo(hoverInfo, result, documentUri, position);
+			const header = content && result.filePath ? await renderCrateHeader(result.filePath, cwd) : '';
+			throwIfCancelled(token);
+			return content && header + content;
+		}
+		return null;
+	} catch (error) {
+		// A superseded lookup has no result, not an error page
+		throwIfCancelled(token);
+		return `<p>Error fetching documentation: ${error instanceof Error ? error.message : 'Unknown error'}</p>`;
+	}
+}
+
+// Output directories of `cargo doc` for a workspace folder: doc/ in the Cargo target directory,
+// and doc/ of each cross-compilation target in it
+async function getCargoDocsRoots(cwd: string): Promise<string[]> {
+	const graph = await cargoMetadata.graph(cwd);
+	const targetDir = graph ? graph.targetDirectory : path.join(cwd, 'target');
+
+	const candidates = [path.join(targetDir, 'doc')];
+	try {
+		for (const entry of await fs.promises.readdir(targetDir, { withFileTypes: true })) {
+			if (entry.isDirectory() && entry.name !== 'doc') {
+				candidates.push(path.join(targetDir, entry.name, 'doc'));
+			}
+		}
+	} catch {
+		return [];
+	}
+
+	const roots: string[] = [];
+	for (const candidate of candidates) {
+		try {
+			if ((await fs.promises.readdir(candidate)).some(entry => /^search-index.*\.js$/.test(entry))) {
+				roots.push(candidate);
+			}
+		} catch {
+			// Not built for this target
+		}
+	}
+	return roots;
+}
+
+// Render the `cargo doc` page of a symbol defined in a workspace crate or dependency, if one was generated
+async function getCargoDocPage(symbol: string, definition: vscode.Location, hovers: vscode.Hover[] | undefined, cwd: string): Promise<string | null> {
+	const definitionPath = definition.uri.fsPath;
+	const pkg = await cargoMetadata.packageFor(definitionPath, cwd);
+	if (!pkg || !isDocSourceEnabled(pkg.isWorkspaceMember ? 'workspace' : 'dependencies')) {
+		return null;
+	}
+
+	for (const docsRoot of await getCargoDocsRoots(cwd)) {
+		try {
+			const index = await loadSearchIndex(docsRoot);
+			const match = index.lookup(symbol, getHoverParentName(hovers), pkg.crateName);
+			if (!match) {
+				continue;
+			}
+
+			const [relativePath, anchor] = match.url.split('#');
+			const doctest = await getDoctestTarget(definitionPath, definition.range.start.line, cwd);
+			const page = await renderRustdocPage(path.join(docsRoot, relativePath), docsRoot, anchor, doctest);
+			return `${await renderCrateHeader(definitionPath, cwd)}<h2>${escapeHtml(page.title)}</h2>${page.content}`;
+		} catch (error) {
+			outputChannel.appendLine(`cargo doc output unavailable in ${docsRoot}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+	return null;
+}
+
+// Search indexes of the enabled doc sources: the toolchain's rustdoc and the output of `cargo doc`
+async function getSearchIndexes(): Promise<RustdocSearchIndex[]> {
+	const roots: string[] = [];
+	if (isDocSourceEnabled('toolchain')) {
+		try {
+			roots.push(await getToolchainDocsRoot(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath));
+		} catch (error) {
+			outputChannel.appendLine(`Toolchain docs unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+	if (isDocSourceEnabled('workspace') || isDocSourceEnabled('dependencies')) {
+		for (const folder of vscode.workspace.workspaceFolders || []) {
+			roots.push(...await getCargoDocsRoots(folder.uri.fsPath));
+		}
+	}
+
+	const indexes: RustdocSearchIndex[] = [];
+	for (const root of roots) {
+		try {
+			indexes.push(await loadSearchIndex(root));
+		} catch (error) {
+			outputChannel.appendLine(`Search index unavailable in ${root}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+	return indexes;
+}
+
+// The rustdoc output directory (toolchain or `cargo doc`) a page belongs to
+async function findDocsRoot(htmlPath: string): Promise<string | undefined> {
+	const roots: string[] = [];
+	for (const folder of vscode.workspace.workspaceFolders || []) {
+		roots.push(...await getCargoDocsRoots(folder.uri.fsPath));
+	}
+	try {
+		roots.push(await getToolchainDocsRoot(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath));
+	} catch {
+		// No toolchain docs installed
+	}
+	return roots.find(root => isDocPathSafe(htmlPath, root));
+}
+
+// Check if a definition lives in the sources of a rustup toolchain (std, core, alloc, ...)
+function isToolchainSource(filePath: string): boolean {
+	return filePath.includes('/.rustup/toolchains/') || filePath.includes('/lib/rustlib/src/');
+}
+
+// First code block of rust-analyzer's hover is the containing path, e.g. "alloc::vec::Vec" for Vec::retain
+function getHoverContainerPath(hovers: vscode.Hover[] | undefined): string | undefined {
+	for (const hover of hovers || []) {
+		for (const item of hover.contents) {
+			const value = typeof item === 'string' ? item : item.value;
+			const match = value.match(/```rust\n([\w:]+)\n```/);
+			if (match) {
+				return match[1];
+			}
+		}
+	}
+	return undefined;
+}
+
+// Module page when a definition is a module: its `mod name` declaration, or the start of its file
+// (rust-analyzer goes to the file of a module, and to the library root for a crate name)
+async function getModulePageAt(symbol: string, definition: vscode.Location, cwd: string): Promise<DocPage | null> {
+	const filePath = definition.uri.fsPath;
+	if (!filePath.endsWith('.rs')) {
+		return null;
+	}
+	const line = definition.range.start.line;
+	if (line === 0 && definition.range.start.character === 0) {
+		const stem = path.basename(filePath, '.rs');
+		const moduleName = stem === 'mod' ? path.basename(path.dirname(filePath)) : stem;
+		const pkg = await cargoMetadata.packageFor(filePath, cwd);
+		if (moduleName === symbol || (pkg?.libPath === filePath && pkg.crateName === symbol)) {
+			return getModuleDocumentation(filePath, -1, cwd);
+		}
+	}
+
+	const document = await vscode.workspace.openTextDocument(definition.uri);
+	if (line >= document.lineCount || !new RegExp(`\\bmod\\s+${symbol}\\b`).test(document.lineAt(line).text)) {
+		return null;
+	}
+	const module = findInlineModule(parseRustFile(document.getText()).items, line);
+	if (!module) {
+		return null;
+	}
+	// A declared module's items are in its own file
+	if (!document.getText(new vscode.Range(module.line, 0, module.endLine + 1, 0)).includes('{')) {
+		const moduleFile = getModuleFilePath(filePath, module);
+		return moduleFile ? getModuleDocumentation(moduleFile, -1, cwd) : null;
+	}
+	return getModuleDocumentation(filePath, line, cwd);
+}
+
+// Members (methods, fields, variants) are looked up on their containing type, named in the hover
+function getHoverParentName(hovers: vscode.Hover[] | undefined): string | undefined {
+	const containerName = getHoverContainerPath(hovers)?.split('::').pop();
+	return containerName && /^[A-Z]/.test(containerName) ? containerName : undefined;
+}
+
+// Render the local rustdoc page for a symbol whose definition is in the toolchain sources
+async function getToolchainDocPage(symbol: string, definitionPath: string, hovers: vscode.Hover[] | undefined, cwd: string, token?: vscode.CancellationToken): Promise<string | null> {
+	if (!isToolchainSource(definitionPath) || !isDocSourceEnabled('toolchain')) {
+		return null;
+	}
+
+	try {
+		const docsRoot = await getToolchainDocsRoot(cwd, token);
+		const index = await loadSearchIndex(docsRoot);
+		const match = index.lookup(symbol, getHoverParentName(hovers));
+		if (!match) {
+			return null;
+		}
+
+		const [relativePath, anchor] = match.url.split('#');
+		const page = await renderRustdocPage(path.join(docsRoot, relativePath), docsRoot, anchor);
+		return `<h2>${escapeHtml(page.title)}</h2>${page.content}`;
+	} catch (error) {
+		outputChannel.appendLine(`Toolchain docs unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		return null;
+	}
+}
+
+interface ItemDefinition {
+	name: string;
+	filePath: string;
+	line: number;
+	modulePath: string[];
+}
+
+// Source directory of the crate containing a file (src/ next to the nearest Cargo.toml)
+function getCrateSourceRoot(filePath: string): string {
+	let dir = path.dirname(filePath);
+	while (dir !== path.dirname(dir)) {
+		if (fs.existsSync(path.join(dir, 'Cargo.toml'))) {
+			return path.join(dir, 'src');
+		}
+		dir = path.dirname(dir);
+	}
+	return path.dirname(filePath);
+}
+
+// Directories holding the sources of the crate a file belongs to, from the package graph when cargo can provide it
+async function getCrateSearchRoots(filePath: string, cwd: string): Promise<string[]> {
+	const pkg = await cargoMetadata.packageFor(filePath, cwd);
+	return pkg ? pkg.sourceRoots : [getCrateSourceRoot(filePath)];
+}
+
+// Header naming the crate, version and enabled features of the package a source file belongs to
+async function renderCrateHeader(filePath: string, cwd: string | undefined): Promise<string> {
+	const pkg = cwd ? await cargoMetadata.packageFor(filePath, cwd) : undefined;
+	if (!pkg) {
+		return '';
+	}
+	// The crate name links to the crate's root docs
+	const name = pkg.libPath
+		? `<a href="#" data-crate-root="${escapeHtml(pkg.libPath)}">${escapeHtml(pkg.crateName)}</a>`
+		: escapeHtml(pkg.crateName);
+	const features = pkg.features.length > 0
+		? ` <span class="crate-features">features: ${pkg.features.map(feature => `<code>${escapeHtml(feature)}</code>`).join(', ')}</span>`
+		: '';
+	return `<div class="crate-header">${name} <span class="crate-version">${escapeHtml(pkg.version)}</span>${features}</div>`;
+}
+
+// Source file of the module declared by `mod name;`: name.rs or name/mod.rs in the declaring module's directory,
+// or the file named by a #[path] attribute
+function getModuleFilePath(declaringFile: string, item: RustItem): string | undefined {
+	const pathAttribute = item.attributes.map(attribute => attribute.match(/^path\s*=\s*"(.+)"$/)).find(match => match);
+	if (pathAttribute) {
+		return path.join(path.dirname(declaringFile), pathAttribute[1]);
+	}
+	const stem = path.basename(declaringFile, '.rs');
+	const dir = ['lib', 'main', 'mod'].includes(stem) ? path.dirname(declaringFile) : path.join(path.dirname(declaringFile), stem);
+	return [path.join(dir, `${item.name}.rs`), path.join(dir, item.name, 'mod.rs')].find(candidate => fs.existsSync(candidate));
+}
+
+// Inline `mod name { ... }` starting at a line, searched through nested modules
+function findInlineModule(items: RustItem[], line: number): RustItem | undefined {
+	for (const item of items) {
+		if (item.kind !== 'mod') {
+			continue;
+		}
+		if (item.line === line) {
+			return item;
+		}
+		const nested = item.line < line && line <= item.endLine ? findInlineModule(item.children, line) : undefined;
+		if (nested) {
+			return nested;
+		}
+	}
+	return undefined;
+}
+
+// Module page: the module's inner docs and its items grouped by kind.
+// line is the line of an inline `mod name {` in filePath, or -1 for the module filePath itself
+async function getModuleDocumentation(filePath: string, line: number, cwd: string | undefined): Promise<DocPage | null> {
+	const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+	const lines = document.getText().split('\n');
+	const parsed = parseRustFile(document.getText());
+
+	const pkg = cwd ? await cargoMetadata.packageFor(filePath, cwd) : undefined;
+	const sourceRoot = pkg?.libPath ? path.dirname(pkg.libPath) : getCrateSourceRoot(filePath);
+	const modulePath = getModulePath(filePath, sourceRoot);
+	let docs = parsed.innerDocs;
+	let items = parsed.items;
+	if (line >= 0) {
+		const module = findInlineModule(parsed.items, line);
+		if (!module) {
+			return null;
+		}
+		modulePath.push(module.name);
+		docs = [module.docs, module.innerDocs].filter(text => text).join('\n\n');
+		items = module.children;
+	}
+
+	const crateName = pkg ? pkg.crateName : path.basename(path.dirname(sourceRoot)).replace(/-/g, '_');
+	const title = modulePath.length > 0 ? modulePath.join('::') : crateName;
+
+	let content = await renderCrateHeader(filePath, cwd);
+	content += `<h2>${modulePath.length > 0 ? 'Module' : 'Crate'} ${escapeHtml(title)}</h2>`;
+	if (docs) {
+		content += `<div>${renderMarkdown(docs, { filePath, line: Math.max(line, 0), selfType: '' })}</div>`;
+	}
+	content += renderModuleItems(items, filePath, lines);
+	return { title, content };
+}
+
+// Render a module's items in sections by kind, each entry with its one-line summary
+function renderModuleItems(items: RustItem[], filePath: string, lines: string[]): string {
+	const parts: string[] = [];
+	for (const { kind, heading, items: sectionItems } of moduleSections(items, config.showPrivateItems)) {
+		const entries: string[] = [];
+		for (const item of sectionItems) {
+			const summary = summarizeDocLines(item.docs.split('\n'));
+			const names = kind === 'use'
+				? useTreePaths(item.signature).map(usePath => renderReexportLink(usePath, filePath))
+				: [renderModuleItemLink(item, filePath, lines)];
+			for (const name of names) {
+				let entry = `<li><code>${name}</code>`;
+				if (item.visibility !== 'pub' && kind !== 'macro') {
+					entry += ` <span class="visibility">${escapeHtml(item.visibility || 'private')}</span>`;
+				}
+				if (summary) {
+					entry += `<div class="member-summary">${renderMarkdown(summary, { filePath, line: item.line })}</div>`;
+				}
+				entries.push(entry + '</li>');
+			}
+		}
+		parts.push(`<h4>${heading}</h4><ul class="module-items">${entries.join('')}</ul>`);
+	}
+	return parts.length > 0 ? parts.join('') : '<p>No items</p>';
+}
+
+// Link to an item of a module, opening its documentation in the sidebar
+function renderModuleItemLink(item: RustItem, filePath: string, lines: string[]): string {
+	const name = escapeHtml(item.name);
+	if (item.kind === 'mod') {
+		// Inline modules have a body in this file; declared ones live in their own file
+		const isInline = lines.slice(item.line, item.endLine + 1).join('\n').includes('{');
+		const moduleFile = isInline ? filePath : getModuleFilePath(filePath, item);
+		if (!moduleFile) {
+			return name;
+		}
+		return `<a href="#" class="method-link" data-module-file="${escapeHtml(moduleFile)}" data-module-line="${isInline ? item.line : -1}">${name}</a>`;
+	}
+	const character = Math.max((lines[item.line] || '').search(new RegExp(`\\b${item.name}\\b`)), 0);
+	return `<a href="#" class="method-link" data-item-file="${escapeHtml(filePath)}" data-item-line="${item.line}" data-item-character="${character}" data-item-name="${name}">${name}</a>`;
+}
+
+// Re-exported paths link like intra-doc links; glob re-exports cannot be followed
+function renderReexportLink(usePath: UsePath, filePath: string): string {
+	if (usePath.name === '*' || !isIntraDocPath(usePath.path)) {
+		return escapeHtml(usePath.path);
+	}
+	const text = usePath.name === usePath.path.split('::').pop() ? usePath.path : `${usePath.path} as ${usePath.name}`;
+	return `<a href="#" class="method-link" data-intra-doc="${escapeHtml(usePath.path)}" data-file-path="${escapeHtml(filePath)}" data-self-type="">${escapeHtml(text)}</a>`;
+}
+
+// Items of the path of the item at a line as rustdoc names its doctests: enclosing inline modules, the impl or
+// trait, then the item. The line may be on the item's docs or attributes
+function doctestItems(items: RustItem[], line: number): RustItem[] {
+	const item = items.find(candidate => candidate.endLine >= line && candidate.kind !== 'use');
+	if (!item) {
+		return [];
+	}
+	const isContainer = item.kind === 'mod' || item.kind === 'impl' || item.kind === 'trait';
+	return isContainer && item.line < line ? [item, ...doctestItems(item.children, line)] : [item];
+}
+
+// 1-based lines of the Rust examples in the /// comment of an item, which name its doctests. The comment lies
+// between the end of the previous item (or the start of the body) and the item
+function docExampleLines(lines: string[], siblings: RustItem[], item: RustItem, bodyStart: number): number[] {
+	const index = siblings.indexOf(item);
+	const start = index > 0 ? siblings[index - 1].endLine + 1 : bodyStart;
+	const docLines: { text: string; line: number }[] = [];
+	for (let line = start; line < item.line; line++) {
+		const match = /^\s*\/\/\/(?!\/)(.*)$/.exec(lines[line]);
+		if (match) {
+			docLines.push({ text: match[1], line });
+		}
+	}
+	// Doc text is unindented by the common indentation of its lines, which decides what reads as an indented code block
+	const indents = docLines.filter(docLine => docLine.text.trim() !== '').map(docLine => docLine.text.match(/^\s*/)![0].length);
+	const common = indents.length > 0 ? Math.min(...indents) : 0;
+	return exampleLines(docLines.map(docLine => docLine.text.substring(common)).join('\n')).map(line => docLines[line].line + 1);
+}
+
+// Doctests of the item at a line, if it is in the library of a workspace package (binaries have no doctests)
+async function getDoctestTarget(filePath: string, line: number, cwd: string | undefined): Promise<DoctestTarget | undefined> {
+	const pkg = cwd ? await cargoMetadata.packageFor(filePath, cwd) : undefined;
+	if (!pkg || !pkg.isWorkspaceMember || !pkg.libPath || !filePath.startsWith(path.dirname(pkg.libPath) + path.sep)) {
+		return undefined;
+	}
+	const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+	const items = parseRustFile(document.getText()).items;
+	const chain = doctestItems(items, line);
+	const item = chain[chain.length - 1];
+	const parent = chain[chain.length - 2];
+	const itemPath = [
+		...getModulePath(filePath, path.dirname(pkg.libPath)),
+		...chain.map(entry => entry.impl ? entry.impl.selfType : entry.name).filter(name => name)
+	];
+	if (!item || itemPath.length === 0) {
+		return undefined;
+	}
+	const lines = document.getText().split('\n');
+	return {
+		packageName: pkg.name,
+		path: itemPath.join('::'),
+		exampleLines: docExampleLines(lines, parent ? parent.children : items, item, parent ? parent.line + 1 : 0)
+	};
+}
+
+// Options the #[cfg] predicates of a file are evaluated against: the host target and the enabled features of its
+// package. Files outside the package graph (e.g. the standard library) leave feature predicates undecided
+async function getCfgOptions(filePath: string, cwd: string): Promise<CfgOptions> {
+	const [options, pkg] = await Promise.all([hostCfg.options(cwd), cargoMetadata.packageFor(filePath, cwd)]);
+	return { ...options, features: pkg ? new Set(pkg.features) : undefined };
+}
+
+// Module path of a source file within its crate, e.g. src/format/parse.rs -> ["format", "parse"]
+function getModulePath(filePath: string, sourceRoot: string): string[] {
+	const relative = path.relative(sourceRoot, filePath);
+	if (relative.startsWith('..')) {
+		return [];
+	}
+	const segments = relative.replace(/\.rs$/, '').split(path.sep);
+	const last = segments[segments.length - 1];
+	if (last === 'mod' || (segments.length === 1 && (last === 'lib' || last === 'main'))) {
+		segments.pop();
+	}
+	return segments;
+}
+
+// Source directory of the crate target a file belongs to: the innermost of the package's source roots holding it
+function getTargetSourceRoot(filePath: string, sourceRoots: string[]): string {
+	const roots = sourceRoots.filter(root => filePath.startsWith(root + path.sep));
+	return roots.sort((a, b) => b.length - a.length)[0] ?? path.dirname(filePath);
+}
+
+// Find where an item named by an intra-doc path is defined, relative to the module of the file the docs come from.
+// The package's source directories are searched, from the package graph when cargo can provide it
+async function findItemDefinition(segments: string[], filePath: string, cwd: string | undefined, token?: vscode.CancellationToken): Promise<ItemDefinition | null> {
+	const name = segments[segments.length - 1];
+	const sourceRoots = cwd ? await getCrateSearchRoots(filePath, cwd) : [getCrateSourceRoot(filePath)];
+	const currentModule = getModulePath(filePath, getTargetSourceRoot(filePath, sourceRoots));
+	// Roots nested in another one (src/bin in src) are searched with it
+	const searchRoots = sourceRoots.filter(root => !sourceRoots.some(other => root.startsWith(other + path.sep)));
+
+	let stdout = '';
+	try {
+		const pattern = `^\\s*(pub(\\([^)]*\\))?\\s+)?((async|const|unsafe)\\s+)*(struct|enum|union|trait|fn|type|const|static|mod)\\s+${name}\\b|macro_rules!\\s*${name}\\b`;
+		const result = await execFileCancellable('grep', ['-r', '-n', '-E', '--include=*.rs', pattern, ...searchRoots], {}, token);
+		stdout = result.stdout;
+	} catch (error) {
+		throwIfCancelled(token);
+		// Exit code 1 just means no matches
+		if ((error as { code?: number | string }).code !== 1) {
+			outputChannel.appendLine(`grep error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+		return null;
+	}
+
+	// crate::, self:: and super:: paths name an exact module; other prefixes are matched loosely
+	const prefix = segments.slice(0, -1);
+	let expectedModule: string[] | undefined;
+	if (prefix[0] === 'crate') {
+		expectedModule = prefix.slice(1);
+	} else if (prefix[0] === 'self' || prefix[0] === 'super') {
+		expectedModule = [...currentModule];
+		let i = prefix[0] === 'self' ? 1 : 0;
+		while (prefix[i] === 'super') {
+			expectedModule.pop();
+			i++;
+		}
+		expectedModule.push(...prefix.slice(i));
+	}
+
+	let best: ItemDefinition | null = null;
+	let bestScore = -1;
+	for (const grepLine of stdout.split('\n')) {
+		const match = grepLine.match(/^(.+?\.rs):(\d+):/);
+		if (!match) {
+			continue;
+		}
+		const candidate: ItemDefinition = {
+			name,
+			filePath: match[1],
+			line: parseInt(match[2]) - 1,
+			modulePath: getModulePath(match[1], getTargetSourceRoot(match[1], sourceRoots))
+		};
+		const modulePath = candidate.modulePath.join('::');
+		const code = grepLine.substring(match[0].length);
+
+		// Indented definitions are methods or live in inline modules, so only top-level ones match by module
+		let score = 0;
+		if (/^\S/.test(code)) {
+			if (expectedModule) {
+				score += modulePath === expectedModule.join('::') ? 100 : 0;
+			} else if (modulePath === [...currentModule, ...prefix].join('::')) {
+				score += 90;
+			} else if (prefix.length > 0 && `::${modulePath}`.endsWith(`::${prefix.join('::')}`)) {
+				score += 50;
+			}
+			score += 30;
+		}
+		if (candidate.filePath === filePath) {
+			score += 20;
+		}
+		if (/^\s*pub\b/.test(code)) {
+			score += 5;
+		}
+		// Otherwise prefer items closer to the crate root
+		score -= candidate.modulePath.length;
+
+		if (score > bestScore) {
+			best = candidate;
+			bestScore = score;
+		}
+	}
+	return best;
+}
+
+// Resolve an intra-doc link (e.g. [`Duration`], [`Self::checked_add`], [`crate::format::Item`]) and render its target
+async function resolveIntraDocLink(target: string, filePath: string, selfType: string, cwd: string | undefined, token?: vscode.CancellationToken): Promise<DocPage | null> {
+	// "struct@Foo" -> "Foo", "foo()" -> "foo", "vec!" -> "vec"; the disambiguator narrows the kind
+	const segments = target.replace(/^[a-z]+@/, '').replace(/(\(\)|!)$/, '').split('::');
+	const disambiguator = target.match(/^([a-z]+)@/)?.[1];
+	const kind = target.endsWith('!') ? 'macro' : disambiguator === 'prim' ? 'primitive' : disambiguator === 'module' ? 'mod' : disambiguator;
+	if (segments[0] === 'Self' && selfType) {
+		segments[0] = selfType;
+	}
+
+	// Type::member links document the member of the resolved type
+	const last = segments[segments.length - 1];
+	const isMember = segments.length > 1 && /^[A-Z]/.test(segments[segments.length - 2]) && /^[a-z_]/.test(last);
+
+	if (filePath && !TOOLCHAIN_CRATES.has(segments[0])) {
+		const definition = await findItemDefinition(isMember ? segments.slice(0, -1) : segments, filePath, cwd, token);
+		if (definition && isMember) {
+			return {
+				title: `${definition.name}::${last}`,
+				content: await getMethodDocumentation(last, definition.name, definition.filePath, -1)
+			};
+		}
+		if (definition) {
+			const uri = vscode.Uri.file(definition.filePath);
+			const document = await vscode.workspace.openTextDocument(uri);
+			const column = document.lineAt(definition.line).text.search(new RegExp(`\\b${definition.name}\\b`));
+			const content = await getRustDocumentation(definition.name, uri, new vscode.Position(definition.line, Math.max(column, 0)), token);
+			if (content) {
+				return { title: definition.name, content };
+			}
+		}
+	}
+
+	// Std paths, prelude items and primitives are documented by the toolchain
+	if (!isDocSourceEnabled('toolchain')) {
+		return null;
+	}
+	try {
+		const docsRoot = await getToolchainDocsRoot(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath, token);
+		const index = await loadSearchIndex(docsRoot);
+		const match = index.lookupPath(segments.join('::'), kind);
+		if (!match) {
+			return null;
+		}
+
+		const [relativePath, anchor] = match.url.split('#');
+		const page = await renderRustdocPage(path.join(docsRoot, relativePath), docsRoot, anchor);
+		return { title: page.title, content: `<h2>${escapeHtml(page.title)}</h2>${page.content}` };
+	} catch (error) {
+		throwIfCancelled(token);
+		outputChannel.appendLine(`Toolchain docs unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		return null;
+	}
+}
+
+// Render the documentation an item reference points to (navigation, restored history, bookmarks)
+async function renderItemReference(item: ItemReference, token?: vscode.CancellationToken): Promise<DocPage | null> {
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+	if (item.kind === 'rustdoc') {
+		const docsRoot = await findDocsRoot(item.filePath);
+		if (!docsRoot) {
+			outputChannel.appendLine(`Unsafe doc path: ${item.filePath}`);
+			return null;
+		}
+		const page = await renderRustdocPage(item.filePath, docsRoot, item.anchor);
+		return { title: page.title, content: `<h2>${escapeHtml(page.title)}</h2>${page.content}` };
+	}
+
+	// Intra-doc links may come from docs without a source file; everything else needs a safe one
+	if ((item.filePath || item.kind !== 'intraDocLink') && !isPathSafe(item.filePath, workspaceFolder)) {
+		outputChannel.appendLine(`Unsafe file path: ${item.filePath}`);
+		return null;
+	}
+
+	if (item.kind === 'method') {
+		const parent = item.parent ?? '';
+		return { title: `${parent}::${item.symbol}`, content: await getMethodDocumentation(item.symbol, parent, item.filePath, item.line, item.implHeader) };
+	}
+	if (item.kind === 'intraDocLink') {
+		return resolveIntraDocLink(item.symbol, item.filePath, item.parent ?? '', workspaceFolder?.uri.fsPath, token);
+	}
+	if (item.kind === 'crate' || item.kind === 'module') {
+		return getModuleDocumentation(item.filePath, item.kind === 'module' ? item.line : -1, workspaceFolder?.uri.fsPath);
+	}
+
+	const uri = vscode.Uri.file(item.filePath);
+	await vscode.workspace.openTextDocument(uri);
+	const content = await getRustDocumentation(item.symbol, uri, new vscode.Position(item.line, item.character ?? 0), token);
+	return content === null ? null : { title: item.symbol, content };
+}
+
+async function getHoverInfo(symbol: string, documentUri: vscode.Uri, position?: vscode.Position, token?: vscode.CancellationToken): Promise<vscode.Hover[] | undefined> {
+	if (!position) {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.uri.toString() !== documentUri.toString()) {
+			return undefined;
+		}
+		position = editor.selection.active;
+	}
+
+	const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+		'vscode.executeHoverProvider',
+		documentUri,
+		position
+	);
+	throwIfCancelled(token);
+
+	return hovers;
+}
+
+interface MethodInfo {
+	signature: string;
+	doc: string;
+	line: number;
+	implBlock?: string;
+	qualifiers?: string[];
+	stability?: ItemStability;
+	// The method's own #[cfg] predicate, and whether it or its block's is off in this build
+	cfg?: string;
+	unavailable?: boolean;
+}
+
+interface ImplBlock {
+	header: string;
+	comment?: string;
+	methods: MethodInfo[];
+	traitName?: string;
+	filePath?: string;
+	cfg?: string;
+	unavailable?: boolean;
+}
+
+interface StructMethodsResult {
+	methods: MethodInfo[];
+	implBlocks: ImplBlock[];
+	structName: string;
+	filePath: string;
+	derives?: string[];
+	traitInfo?: TraitInfo;
+	fields?: FieldInfo[];
+	variants?: VariantInfo[];
+	// Methods of the types reached through Deref, in chain order
+	derefSections?: DerefSection[];
+}
+
+// Inherent methods of a Deref target, listed under "Methods from Deref<Target = U>"
+interface DerefSection {
+	// Target as written in the Deref impl, e.g. "str" or "Inner<T>"
+	target: string;
+	// Name the methods are listed under ("slice" for slices)
+	typeName: string;
+	// The target's inherent impl blocks
+	implBlocks: ImplBlock[];
+}
+
+interface FieldInfo {
+	name: string;
+	type: string;
+	visibility: string;
+	doc: string;
+	line: number;
+}
+
+interface VariantInfo {
+	name: string;
+	signature: string;
+	doc: string;
+	line: number;
+	fields: FieldInfo[];
+}
+
+interface TraitItem {
+	signature: string;
+	doc: string;
+	line: number;
+}
+
+interface TraitImplementor {
+	header: string;
+	typeName: string;
+	filePath: string;
+	line: number;
+}
+
+interface TraitInfo {
+	name: string;
+	associatedTypes: TraitItem[];
+	associatedConsts: TraitItem[];
+	requiredMethods: MethodInfo[];
+	providedMethods: MethodInfo[];
+	implementors: TraitImplementor[];
+}
 
-		const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
-		const cwd = workspaceFolder?.uri.fsPath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 
-		if (!cwd) {
-			return '<p>No workspace folder found</p>';
+// Use first paragraph of doc comment lines (up to minDocSentences lines or until empty line)
+function summarizeDocLines(docLines: string[]): string {
+	const paragraph: string[] = [];
+	for (const line of docLines) {
+		if (line === '') {
+			break;
+		}
+		paragraph.push(line);
+		if (paragraph.length >= config.minDocSentences) {
+			break;
 		}
+	}
+	return paragraph.join(' ');
+}
 
-		const { stdout } = await execFilePromise('rustup', ['doc', '--path'], { cwd });
-		const docsPath = stdout.trim();
+// The items of a trait: associated types and consts, and required and provided methods
+function traitItems(name: string, children: RustItem[]): TraitInfo {
+	const info: TraitInfo = { name, associatedTypes: [], associatedConsts: [], requiredMethods: [], providedMethods: [], implementors: [] };
+	for (const child of children) {
+		const doc = summarizeDocLines(child.docs.split('\n'));
+		if (child.kind === 'fn') {
+			const method = {
+				signature: child.signature.replace(/^.*?\bfn\s+/, ''),
+				doc,
+				line: child.line,
+				qualifiers: child.qualifiers,
+				stability: itemStability(child.attributes)
+			};
+			(child.hasBody ? info.providedMethods : info.requiredMethods).push(method);
+		} else if (child.kind === 'type') {
+			info.associatedTypes.push({ signature: child.signature, doc, line: child.line });
+		} else if (child.kind === 'const') {
+			// Drop default values from the displayed signature
+			info.associatedConsts.push({ signature: child.signature.replace(/\s*=.*$/, ''), doc, line: child.line });
+		}
+	}
+	return info;
+}
 
-		// Use execFile with array arguments to prevent command injection
-		const searchResult = await execFilePromise('rg', [
-			'-i',
-			`^${symbol}`,
-			docsPath,
-			'--type', 'html',
-			'-l'
-		], { cwd }).then(result => {
-			// Limit to first 5 lines
-			const lines = result.stdout.trim().split('\n').slice(0, 5);
-			return { stdout: lines.join('\n') };
-		}).catch(() => ({ stdout: '' }));
+// Find `impl Trait for Type` blocks of a trait, in the files accepted by include
+async function findTraitImplementors(target: ImplTarget, include: (block: IndexedImplBlock) => boolean, token?: vscode.CancellationToken): Promise<TraitImplementor[]> {
+	const blocks = await queryBackends(backend => backend.implementorsOf(target, token), token) || [];
+	return blocks
+		.filter(include)
+		.map(block => ({
+			header: block.header,
+			typeName: block.selfType,
+			filePath: block.filePath,
+			line: block.line
+		}))
+		.sort((a, b) => a.typeName.localeCompare(b.typeName));
+}
 
-		if (!searchResult.stdout.trim()) {
-			const editor = vscode.window.activeTextEditor;
-			if (editor) {
-				const position = editor.selection.active;
-				const hoverInfo = await getHoverInfo(symbol, documentUri);
-				const result = await getStructMethods(symbol, documentUri, position);
-				if (hoverInfo) {
-					return formatHoverInfo(hoverInfo, result, documentUri, position);
-				}
+// Find the impl blocks of a source file (including inline modules) with the methods declared in their bodies
+function parseImplBlocks(source: string, filePath: string): IndexedImplBlock[] {
+	const blocks: IndexedImplBlock[] = [];
+	// cfg is the predicate of the enclosing modules
+	const visit = (items: RustItem[], cfg?: string) => {
+		for (const item of items) {
+			if (item.kind === 'mod') {
+				visit(item.children, joinCfg(cfg, cfgPredicate(item.attributes)));
 			}
-			return null;
+			if (item.kind !== 'impl' || !item.impl) {
+				continue;
+			}
+			blocks.push({
+				header: item.signature,
+				// The summary line of the impl's docs serves as its heading
+				comment: item.docs.split('\n')[0].trim() || undefined,
+				traitName: item.impl.traitName,
+				selfType: item.impl.selfType,
+				selfName: implTargetName(item.impl.selfType),
+				filePath,
+				line: item.line,
+				endLine: item.endLine,
+				cfg: joinCfg(cfg, cfgPredicate(item.attributes)),
+				methods: item.children
+					.filter(child => child.kind === 'fn' && !child.name.startsWith('_'))
+					.map(child => ({
+						signature: child.signature.replace(/^.*?\bfn\s+/, ''),
+						doc: summarizeDocLines(child.docs.split('\n')),
+						line: child.line,
+						isPublic: child.visibility.startsWith('pub'),
+						qualifiers: child.qualifiers,
+						stability: itemStability(child.attributes),
+						cfg: cfgPredicate(child.attributes)
+					}))
+			});
 		}
+	};
+	visit(parseRustFile(source).items);
+	return blocks;
+}
 
-		return `<h2>${symbol}</h2>
-				<p>Documentation path: <code>${searchResult.stdout.trim().split('\n')[0]}</code></p>
-				<p>Use rust-analyzer hover for detailed information</p>`;
-	} catch (error) {
-		return `<p>Error fetching documentation: ${error instanceof Error ? error.message : 'Unknown error'}</p>`;
+// The fields of a struct or union, or the variants of an enum with their fields
+function typeMembers(item: RustItem): { fields: FieldInfo[]; variants: VariantInfo[] } {
+	const toField = (field: RustItem): FieldInfo => ({
+		name: field.name,
+		type: field.fieldType || '',
+		visibility: field.visibility,
+		doc: field.docs,
+		line: field.line
+	});
+	if (item.kind !== 'enum') {
+		return { fields: item.children.map(toField), variants: [] };
 	}
+	const variants = item.children.map(variant => ({
+		name: variant.name,
+		signature: variant.signature,
+		doc: variant.docs,
+		line: variant.line,
+		fields: variant.children.map(toField)
+	}));
+	return { fields: [], variants };
 }
 
-async function getHoverInfo(symbol: string, documentUri: vscode.Uri): Promise<vscode.Hover[] | undefined> {
-	const editor = vscode.window.activeTextEditor;
-	if (!editor || editor.document.uri.toString() !== documentUri.toString()) {
-		return undefined;
+// The item of a kind and name whose span holds a line, e.g. the type a definition provider points at
+function findItemAt(lines: string[], line: number, kind: ItemKind, name: string): RustItem | undefined {
+	return itemsAt(parseRustFile(lines.join('\n')).items, line).find(item => item.kind === kind && item.name === name);
+}
+
+// Collect traits listed in #[derive(...)] attributes directly above a type definition
+function collectDerives(lines: string[], itemLine: number): string[] {
+	let start = itemLine;
+	while (start > 0 && itemLine - start < config.maxDocLinesToScan) {
+		const trimmed = lines[start - 1].trim();
+		if (trimmed === '' || trimmed.endsWith(';') || trimmed.endsWith('}')) {
+			break;
+		}
+		start--;
 	}
 
-	const position = editor.selection.active;
-	const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
-		'vscode.executeHoverProvider',
-		documentUri,
-		position
-	);
+	const derives: string[] = [];
+	const attributes = lines.slice(start, itemLine).join(' ');
+	for (const match of attributes.matchAll(/#\[derive\(([^)]*)\)\]/g)) {
+		derives.push(...match[1].split(',').map(name => name.trim()).filter(name => name.length > 0));
+	}
+	return derives;
+}
 
-	return hovers;
+// Filter, grouping, sort and qualifier controls for the method lists of a page; applied in the webview
+function renderMethodControls(): string {
+	const qualifier = (name: string) => `<label><input type="checkbox" name="${name}" checked> ${name}</label>`;
+	return `<div id="method-controls" class="method-controls" oninput="applyMethodFilter()">
+		<input type="search" name="filter" class="search-input" placeholder="Filter by name, parameter or return type" autocomplete="off">
+		<div class="method-options">
+			<label><input type="checkbox" name="group"> Group by receiver</label>
+			<select name="sort" class="nav-select"><option value="source">Source order</option><option value="name">A–Z</option></select>
+			${qualifier('const')}${qualifier('unsafe')}${qualifier('async')}
+		</div>
+	</div>`;
 }
 
-interface MethodInfo {
-	signature: string;
-	doc: string;
-	line: number;
-	implBlock?: string;
+// Compact badges for the qualifiers, deprecation and feature gate of an item
+function renderItemBadges(qualifiers: string[], stability: ItemStability): string {
+	const badges = qualifiers.map(qualifier => {
+		const kind = qualifier === 'unsafe' ? ' unsafe' : '';
+		return `<span class="item-badge${kind}">${escapeHtml(qualifier)}</span>`;
+	});
+	if (stability.deprecated) {
+		const since = stability.deprecated.since ? ` since ${stability.deprecated.since}` : '';
+		badges.push(`<span class="item-badge deprecated" title="Deprecated${escapeHtml(since)}">deprecated</span>`);
+	}
+	if (stability.unstable) {
+		const feature = stability.unstable.feature;
+		const title = feature ? ` title="Requires #![feature(${escapeHtml(feature)})]"` : '';
+		badges.push(`<span class="item-badge unstable"${title}>unstable${feature ? ` (${escapeHtml(feature)})` : ''}</span>`);
+	}
+	return badges.join('');
 }
 
-interface ImplBlock {
-	header: string;
-	comment?: string;
-	methods: MethodInfo[];
+// The cfg an item needs, marked when it is off in this build
+function renderCfgBadge(cfg: string | undefined, unavailable: boolean = false): string {
+	if (!cfg) {
+		return '';
+	}
+	const title = unavailable ? 'Not enabled in this build' : 'Enabled in this build, or undecided';
+	return `<span class="item-badge cfg" title="${title}">cfg(${escapeHtml(cfg)})</span>`;
 }
 
-interface StructMethodsResult {
-	methods: MethodInfo[];
-	implBlocks: ImplBlock[];
-	structName: string;
-	filePath: string;
+// "Deprecated since 1.2.0: note" under a deprecated item, or nothing
+function renderDeprecationNote(stability: ItemStability, context: MarkdownContext): string {
+	const deprecated = stability.deprecated;
+	if (!deprecated) {
+		return '';
+	}
+	const label = deprecated.since ? `Deprecated since ${escapeHtml(deprecated.since)}` : 'Deprecated';
+	const note = deprecated.note ? `: ${renderMarkdown(deprecated.note, context)}` : '';
+	return `<div class="deprecation-note">${label}${note}</div>`;
 }
 
 // Render a single method as HTML list item
@@ -459,12 +2435,21 @@ function renderMethodListItem(method: MethodInfo, structName: string, filePath:
 	const fnNameMatch = method.signature.match(/^(\w+)/);
 	const fnName = fnNameMatch ? fnNameMatch[1] : '';
 
+	// Name, receiver and qualifiers let the webview filter, group and sort the list
+	const qualifiers = (method.qualifiers || []).join(' ');
 	const parts: string[] = [];
-	parts.push('<li style="margin-bottom: 12px;">');
-	parts.push(`<code><a href="#" class="method-link" onclick="showMethodDocs('${escapeHtml(fnName)}', '${escapeHtml(structName)}', '${escapeHtml(filePath)}'); return false;">${escapeHtml(method.signature)}</a></code>`);
+	parts.push(`<li class="method-item${method.unavailable ? ' unavailable' : ''}" style="margin-bottom: 12px;" data-name="${escapeHtml(fnName)}" data-receiver="${methodReceiver(method.signature)}" data-qualifiers="${escapeHtml(qualifiers)}">`);
+	// The link carries the method's exact location; the impl header goes along for blocks the parser cannot see
+	const implHeader = method.implBlock ? ` data-impl-header="${escapeHtml(method.implBlock)}"` : '';
+	const stability = method.stability || {};
+	const deprecated = stability.deprecated ? ' class="deprecated-item"' : '';
+	parts.push(`<code${deprecated}><a href="#" class="method-link" data-method="${escapeHtml(fnName)}" data-parent="${escapeHtml(structName)}" data-file-path="${escapeHtml(filePath)}" data-line="${method.line}"${implHeader}>${escapeHtml(method.signature)}</a></code>`);
+	parts.push(renderItemBadges(method.qualifiers || [], stability));
+	parts.push(renderCfgBadge(method.cfg, method.unavailable));
+	parts.push(renderDeprecationNote(stability, { filePath, line: method.line, selfType: structName }));
 
 	if (method.doc) {
-		const docHtml = markdownToHtml(method.doc, false);
+		const docHtml = renderMarkdown(method.doc, { filePath, line: method.line, selfType: structName });
 		parts.push(`<div style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px; margin-left: 0;">${docHtml}</div>`);
 	}
 
@@ -473,9 +2458,9 @@ function renderMethodListItem(method: MethodInfo, structName: string, filePath:
 }
 
 // Render methods list with optional filtering
-function renderMethodsList(methods: MethodInfo[], structName: string, filePath: string, filterByDocs: boolean = true): string {
+function renderMethodsList(methods: MethodInfo[], structName: string, filePath: string, filterByDocs: boolean = config.hideUndocumentedMethods): string {
 	const parts: string[] = [];
-	parts.push('<ul style="list-style: none; padding-left: 0;">');
+	parts.push('<ul class="method-list" style="list-style: none; padding-left: 0;">');
 
 	for (const method of methods) {
 		if (filterByDocs && !hasMinimumDocs(method.doc)) {
@@ -488,70 +2473,286 @@ function renderMethodsList(methods: MethodInfo[], structName: string, filePath:
 	return parts.join('');
 }
 
-async function getMethodDocumentation(methodName: string, structName: string, filePath: string): Promise<string> {
-	try {
-		outputChannel.appendLine(`Getting full docs for ${structName}::${methodName} from ${filePath}`);
+// Render a list of fields: name, type, visibility and docs, each linking to its source line
+function renderFieldsList(fields: FieldInfo[], filePath: string): string {
+	const parts: string[] = [];
+	parts.push('<ul style="list-style: none; padding-left: 0;">');
+	for (const field of fields) {
+		parts.push('<li style="margin-bottom: 12px;">');
+		parts.push(`<code>${sourceLinkOpen(filePath, field.line)}${escapeHtml(field.name)}: ${escapeHtml(field.type)}</a></code>`);
+		parts.push(` <span class="visibility">${escapeHtml(field.visibility || 'private')}</span>`);
+		if (field.doc) {
+			parts.push(`<div style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px;">${renderMarkdown(field.doc, { filePath, line: field.line })}</div>`);
+		}
+		parts.push('</li>');
+	}
+	parts.push('</ul>');
+	return parts.join('');
+}
 
-		const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
-		const text = document.getText();
-		const lines = text.split('\n');
-
-		// Find the method
-		let methodStart = -1;
-		for (let i = 0; i < lines.length; i++) {
-			if (lines[i].includes(`fn ${methodName}(`)) {
-				methodStart = i;
-				break;
+// Render the "Fields" section of a struct/union or the "Variants" section of an enum
+function renderTypeMembers(result: StructMethodsResult): string {
+	const parts: string[] = [];
+
+	const fields = (result.fields || []).filter(field => config.showPrivateItems || field.visibility);
+	if (fields.length > 0) {
+		parts.push('<h4>Fields</h4>');
+		parts.push(renderFieldsList(fields, result.filePath));
+	}
+
+	if (result.variants && result.variants.length > 0) {
+		parts.push('<h4>Variants</h4>');
+		parts.push('<ul style="list-style: none; padding-left: 0;">');
+		for (const variant of result.variants) {
+			parts.push('<li style="margin-bottom: 12px;">');
+			parts.push(`<code>${sourceLinkOpen(result.filePath, variant.line)}${escapeHtml(variant.signature)}</a></code>`);
+			if (variant.doc) {
+				parts.push(`<div style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px;">${renderMarkdown(variant.doc, { filePath: result.filePath, line: variant.line, selfType: result.structName })}</div>`);
+			}
+			// Struct-like and tuple variants list their fields (only when any of them is documented)
+			if (variant.fields.some(field => field.doc)) {
+				parts.push(`<div style="margin-left: 16px; margin-top: 4px;">${renderFieldsList(variant.fields, result.filePath)}</div>`);
 			}
+			parts.push('</li>');
 		}
+		parts.push('</ul>');
+	}
+
+	return parts.join('');
+}
 
-		if (methodStart === -1) {
-			return `<h2>${structName}::${methodName}</h2><p>Method not found</p>`;
+// Render associated items (types, consts) with a link to their declaration
+function renderTraitItemsList(items: TraitItem[], filePath: string): string {
+	const parts: string[] = [];
+	parts.push('<ul style="list-style: none; padding-left: 0;">');
+	for (const item of items) {
+		parts.push('<li style="margin-bottom: 12px;">');
+		parts.push(`<code>${sourceLinkOpen(filePath, item.line)}${escapeHtml(item.signature)}</a></code>`);
+		if (item.doc) {
+			parts.push(`<div style="font-size: 12px; color: var(--vscode-descriptionForeground); margin-top: 4px;">${renderMarkdown(item.doc, { filePath, line: item.line })}</div>`);
 		}
+		parts.push('</li>');
+	}
+	parts.push('</ul>');
+	return parts.join('');
+}
 
-		// Collect all doc comments before the method
-		const docLines: string[] = [];
-		for (let i = methodStart - 1; i >= 0; i--) {
-			const trimmed = lines[i].trim();
-			if (trimmed.startsWith('///')) {
-				docLines.unshift(trimmed.substring(3).trim());
-			} else if (trimmed.startsWith('#[') || trimmed === '') {
-				continue;
-			} else {
-				break;
-			}
+// Render a trait's associated items, required/provided methods and known implementors
+function renderTraitInfo(traitInfo: TraitInfo, filePath: string): string {
+	const parts: string[] = [];
+
+	if (traitInfo.associatedTypes.length > 0) {
+		parts.push('<h4>Associated Types</h4>');
+		parts.push(renderTraitItemsList(traitInfo.associatedTypes, filePath));
+	}
+	if (traitInfo.associatedConsts.length > 0) {
+		parts.push('<h4>Associated Constants</h4>');
+		parts.push(renderTraitItemsList(traitInfo.associatedConsts, filePath));
+	}
+	if (traitInfo.requiredMethods.length > 0) {
+		parts.push('<h4>Required Methods</h4>');
+		parts.push(renderMethodsList(traitInfo.requiredMethods, traitInfo.name, filePath, false));
+	}
+	if (traitInfo.providedMethods.length > 0) {
+		parts.push('<h4>Provided Methods</h4>');
+		parts.push(renderMethodsList(traitInfo.providedMethods, traitInfo.name, filePath, false));
+	}
+
+	parts.push(`<h4>Implementors (${traitInfo.implementors.length})</h4>`);
+	if (traitInfo.implementors.length === 0) {
+		parts.push('<p style="font-size: 12px;">No implementations found in the workspace or the defining crate</p>');
+	} else {
+		parts.push('<ul style="list-style: none; padding-left: 0;">');
+		for (const implementor of traitInfo.implementors) {
+			parts.push('<li style="margin-bottom: 6px;">');
+			parts.push(`<code>${sourceLinkOpen(implementor.filePath, implementor.line)}${escapeHtml(implementor.typeName)}</a></code>`);
+			parts.push(`<div style="font-size: 12px; color: var(--vscode-descriptionForeground);"><code>${escapeHtml(implementor.header)}</code></div>`);
+			parts.push('</li>');
 		}
+		parts.push('</ul>');
+	}
 
-		// Get the method signature
-		let signature = '';
-		for (let i = methodStart; i < lines.length; i++) {
-			signature += lines[i].trim() + ' ';
-			if (lines[i].includes('{')) {
-				break;
-			}
+	return parts.join('');
+}
+
+// "Methods from Deref<Target = U>" for each type of the Deref chain, after the type's own methods
+function renderDerefSections(result: StructMethodsResult): string {
+	const parts: string[] = [];
+	for (const section of result.derefSections || []) {
+		parts.push(`<h4>Methods from Deref&lt;Target = ${escapeHtml(section.target)}&gt;</h4>`);
+		for (const block of section.implBlocks) {
+			parts.push(renderMethodsList(block.methods, section.typeName, block.filePath || result.filePath));
+		}
+	}
+	return parts.join('');
+}
+
+// Render the "Trait Implementations" section: derived traits plus each trait impl block with its methods
+function renderTraitImplementations(result: StructMethodsResult): string {
+	const traitBlocks = result.implBlocks
+		.filter(block => block.traitName)
+		.sort((a, b) => (a.traitName || '').localeCompare(b.traitName || ''));
+	const derives = result.derives || [];
+	if (traitBlocks.length === 0 && derives.length === 0) {
+		return '';
+	}
+
+	const parts: string[] = [];
+	parts.push('<h4>Trait Implementations</h4>');
+	if (derives.length > 0) {
+		parts.push(`<p class="trait-impl">Derived: ${derives.map(name => `<code>${escapeHtml(name)}</code>`).join(', ')}</p>`);
+	}
+	for (const block of traitBlocks) {
+		const header = `<code>${escapeHtml(block.header)}</code>${renderCfgBadge(block.cfg, block.unavailable)}`;
+		const classes = block.unavailable ? 'trait-impl unavailable' : 'trait-impl';
+		if (block.methods.length === 0) {
+			parts.push(`<div class="${classes}">${header}</div>`);
+			continue;
 		}
+		parts.push(`<details class="${classes}"><summary>${header}</summary>`);
+		parts.push(renderMethodsList(block.methods, result.structName, block.filePath || result.filePath, false));
+		parts.push('</details>');
+	}
+	return parts.join('');
+}
+
+// Method page: signature, full docs and the impl block it is defined in, with a link back to its type.
+// line is where the method was listed (-1 to find it by name); implHeader is the header it was listed
+// under, shown when the parser cannot see the block
+async function getMethodDocumentation(methodName: string, structName: string, filePath: string, line: number, implHeader?: string): Promise<string> {
+	try {
+		outputChannel.appendLine(`Getting full docs for ${structName}::${methodName} from ${filePath}:${line + 1}`);
 
-		signature = signature.replace(/\s+/g, ' ').trim();
-		if (signature.includes('{')) {
-			signature = signature.substring(0, signature.indexOf('{')).trim();
+		const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+		const method = findMethodItem(parseRustFile(document.getText()).items, methodName, structName, line);
+
+		if (!method) {
+			return `<h2>${escapeHtml(structName)}::${escapeHtml(methodName)}</h2><p>Method not found</p>`;
 		}
 
-		let content = `<h2>${structName}::${methodName}</h2>`;
-		content += `<pre><code>${escapeHtml(signature)}</code></pre>`;
+		const header = method.container ? method.container.signature : implHeader;
+		const parentLink = `<a href="#" class="method-link" data-intra-doc="${escapeHtml(structName)}" data-file-path="${escapeHtml(filePath)}" data-self-type="">${escapeHtml(structName)}</a>`;
+
+		const cwd = (vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) || vscode.workspace.workspaceFolders?.[0])?.uri.fsPath;
+		let content = await renderCrateHeader(filePath, cwd);
+		content += `<h2>${escapeHtml(structName)}::${escapeHtml(methodName)}</h2>`;
+		content += `<p class="method-parent">Method of ${parentLink}`;
+		content += ` ${sourceLinkOpen(filePath, method.item.line, '')}(source)</a></p>`;
+		if (header) {
+			content += `<pre class="impl-header"><code>${escapeHtml(header)}</code></pre>`;
+		}
+		const stability = itemStability(method.item.attributes);
+		let badges = renderItemBadges(method.item.qualifiers, stability);
+		const cfg = joinCfg(method.container && cfgPredicate(method.container.attributes), cfgPredicate(method.item.attributes));
+		if (cfg) {
+			badges += renderCfgBadge(cfg, !!cwd && evaluateCfg(cfg, await getCfgOptions(filePath, cwd)) === false);
+		}
+		if (badges) {
+			content += `<p class="item-badges">${badges}</p>`;
+		}
+		content += `<pre${stability.deprecated ? ' class="deprecated-item"' : ''}><code>${escapeHtml(method.item.signature)}</code></pre>`;
+		content += renderDeprecationNote(stability, { filePath, line: method.item.line, selfType: structName });
 
-		if (docLines.length > 0) {
+		if (method.item.docs) {
 			content += '<div>';
-			content += markdownToHtml(docLines.join('\n'), false);
+			const doctest = await getDoctestTarget(filePath, method.item.line, cwd);
+			content += renderMarkdown(method.item.docs, { filePath, line: method.item.line, selfType: structName, doctest });
 			content += '</div>';
 		}
 
 		return content;
 	} catch (error) {
-		return `<h2>${structName}::${methodName}</h2><p>Error: ${error instanceof Error ? error.message : 'Unknown error'}</p>`;
+		return `<h2>${escapeHtml(structName)}::${escapeHtml(methodName)}</h2><p>Error: ${error instanceof Error ? error.message : 'Unknown error'}</p>`;
+	}
+}
+
+// Whether a definition line binds a value (let, field or parameter) rather than starting an item
+function isValueBinding(line: string): boolean {
+	return /^\s*(?:let\b|(?:pub(?:\([^)]*\))?\s+)?(?:r#)?\w+\s*:(?!:))/.test(line);
+}
+
+// Location of the name on the line defining a struct, enum, union or trait
+function itemNameLocation(uri: vscode.Uri, lines: string[], line: number, name: string): vscode.Location | undefined {
+	const match = line >= 0 ? new RegExp(`\\b(?:struct|enum|union|trait)\\s+${name}\\b`).exec(lines[line]) : null;
+	if (!match) {
+		return undefined;
+	}
+	return new vscode.Location(uri, new vscode.Position(line, match.index + match[0].length - name.length));
+}
+
+// Source directories of the standard library crates that hold the inherent impls of primitive types
+async function getPrimitiveImplRoots(filePath: string, cwd: string, token?: vscode.CancellationToken): Promise<string[]> {
+	const marker = `${path.sep}library${path.sep}`;
+	let library: string;
+	if (isToolchainSource(filePath) && filePath.includes(marker)) {
+		library = filePath.substring(0, filePath.indexOf(marker) + marker.length - 1);
+	} else {
+		try {
+			const { stdout } = await execFileCancellable('rustc', ['--print', 'sysroot'], { cwd }, token);
+			library = path.join(stdout.trim(), 'lib', 'rustlib', 'src', 'rust', 'library');
+		} catch (error) {
+			throwIfCancelled(token);
+			outputChannel.appendLine(`rustc --print sysroot failed: ${error instanceof Error ? error.message : error}`);
+			return [];
+		}
+	}
+	return ['core', 'alloc'].map(name => path.join(library, name, 'src')).filter(root => fs.existsSync(root));
+}
+
+// The inherent methods of the types a type derefs to, following the Deref impls among its impl blocks and those
+// of each target. start identifies the type itself
+async function getDerefSections(blocks: IndexedImplBlock[], start: string, cwd: string, include: (block: IndexedImplBlock) => boolean, token?: vscode.CancellationToken): Promise<DerefSection[]> {
+	const host: DerefChainHost = {
+		implsOf: async target => (await queryBackends(backend => backend.implsOf(target, token), token) || []).filter(include),
+		searchPathsOf: async filePath => filePath.startsWith(cwd + path.sep) ? [cwd] : getCrateSearchRoots(filePath, cwd),
+		primitiveImplRoots: async (filePath, token) => isDocSourceEnabled('toolchain') ? getPrimitiveImplRoots(filePath, cwd, token) : undefined,
+		log: message => outputChannel.appendLine(message)
+	};
+	const sections: DerefSection[] = [];
+	for (const step of await followDerefChain(host, blocks, start, token)) {
+		const implBlocks: ImplBlock[] = [];
+		for (const block of step.blocks.filter(block => !block.traitName && !block.generated)) {
+			const implBlock = await listImplBlock(block, cwd);
+			if (implBlock && implBlock.methods.length > 0) {
+				implBlocks.push(implBlock);
+			}
+		}
+		if (implBlocks.length > 0) {
+			sections.push({ target: step.target.type, typeName: step.target.impl.name, implBlocks });
+		}
+	}
+	return sections;
+}
+
+// An impl block as listed: the methods shown for it, with the #[cfg] of the block and of each method evaluated for
+// this build. Undefined when the block's cfg is off and such items are hidden
+async function listImplBlock(block: IndexedImplBlock, cwd: string): Promise<ImplBlock | undefined> {
+	const cfgOptions = await getCfgOptions(block.filePath, cwd);
+	const isUnavailable = (cfg?: string) => !!cfg && evaluateCfg(cfg, cfgOptions) === false;
+	const blockUnavailable = isUnavailable(block.cfg);
+	if (blockUnavailable && config.unavailableItems === 'hide') {
+		return undefined;
 	}
+	// Trait impl methods are as visible as the trait; inherent ones need "pub"
+	const methods = block.methods
+		.filter(method => config.showPrivateItems || block.traitName || method.isPublic)
+		.map(({ signature, doc, line, qualifiers, stability, cfg }) => ({
+			signature, doc, line, implBlock: block.header, qualifiers, stability, cfg,
+			unavailable: blockUnavailable || isUnavailable(cfg)
+		}))
+		.filter(method => !method.unavailable || config.unavailableItems !== 'hide');
+	return {
+		header: block.header,
+		comment: block.comment,
+		methods,
+		traitName: block.traitName,
+		filePath: block.filePath,
+		cfg: block.cfg,
+		unavailable: blockUnavailable
+	};
 }
 
-async function getStructMethods(symbol: string, documentUri: vscode.Uri, position: vscode.Position): Promise<StructMethodsResult> {
+async function getStructMethods(symbol: string, documentUri: vscode.Uri, position: vscode.Position, token?: vscode.CancellationToken): Promise<StructMethodsResult> {
 	try {
 		const definitions = await vscode.commands.executeCommand<vscode.Location[]>(
 			'vscode.executeDefinitionProvider',
@@ -565,13 +2766,33 @@ async function getStructMethods(symbol: string, documentUri: vscode.Uri, positio
 
 		const defLocation = definitions[0];
 
-		const defUri = 'targetUri' in defLocation ? (defLocation as any).targetUri : (defLocation as vscode.Location).uri;
-		const defRange = 'targetRange' in defLocation ? (defLocation as any).targetRange : (defLocation as vscode.Location).range;
+		let defUri: vscode.Uri | undefined = 'targetUri' in defLocation ? (defLocation as any).targetUri : (defLocation as vscode.Location).uri;
+		let defRange: vscode.Range = 'targetRange' in defLocation ? (defLocation as any).targetRange : (defLocation as vscode.Location).range;
 
 		if (!defUri) {
 			return { methods: [], implBlocks: [], structName: symbol, filePath: '' };
 		}
 
+		let lines = (await vscode.workspace.openTextDocument(defUri)).getText().split('\n');
+
+		// A variable, field or parameter: show its type
+		if (isValueBinding(lines[defRange.start.line] || '')) {
+			const typeLocation = await queryBackends(backend => backend.typeDefinitionAt(documentUri, position, token), token);
+			if (typeLocation) {
+				defUri = typeLocation.uri;
+				defRange = typeLocation.range;
+				lines = (await vscode.workspace.openTextDocument(defUri)).getText().split('\n');
+			}
+		}
+
+		// A type alias: show the type at the end of its chain of aliases
+		const aliased = await resolveTypeAlias(new vscode.Location(defUri, defRange), lines, token);
+		if (aliased) {
+			defUri = aliased.location.uri;
+			defRange = aliased.location.range;
+			lines = aliased.lines;
+		}
+
 		const defPath = defUri.fsPath;
 
 		const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
@@ -582,27 +2803,39 @@ async function getStructMethods(symbol: string, documentUri: vscode.Uri, positio
 		}
 
 		const isExternalCrate = !defPath.includes(cwd);
-
-		let searchPattern: string;
-		let searchPath: string;
-
-		const document = await vscode.workspace.openTextDocument(defUri);
-		const defText = document.getText();
-		const lines = defText.split('\n');
 		const startLine = defRange.start.line;
 
 		let structName: string | undefined;
+		let derives: string[] = [];
+		let fields: FieldInfo[] = [];
+		let variants: VariantInfo[] = [];
+		let traitLine = -1;
+		let nameLine = -1;
+		let isTypeAlias = false;
 
 		for (let i = startLine; i < Math.min(startLine + 10, lines.length); i++) {
 			const line = lines[i];
-			const structMatch = line.match(/(?:pub\s+)?struct\s+(\w+)/);
-			const typeAliasMatch = line.match(/(?:pub\s+)?type\s+(\w+)\s*=\s*(\w+)/);
-
-			if (typeAliasMatch) {
+			const traitMatch = line.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?(?:auto\s+)?trait\s+(\w+)/);
+			const structMatch = line.match(/(?:pub\s+)?(struct|enum|union)\s+(\w+)/);
+			const typeAliasMatch = line.match(/(?:pub\s+)?type\s+(\w+)(?:<[^=]*>)?\s*=\s*(?:\w+::)*(\w+)/);
+
+			if (traitMatch) {
+				structName = traitMatch[1];
+				traitLine = i;
+				nameLine = i;
+				break;
+			} else if (typeAliasMatch) {
 				structName = typeAliasMatch[2];
+				isTypeAlias = true;
 				break;
 			} else if (structMatch) {
-				structName = structMatch[1];
+				structName = structMatch[2];
+				nameLine = i;
+				derives = collectDerives(lines, i);
+				const item = findItemAt(lines, i, structMatch[1] as ItemKind, structName);
+				if (item) {
+					({ fields, variants } = typeMembers(item));
+				}
 				break;
 			}
 		}
@@ -617,165 +2850,55 @@ async function getStructMethods(symbol: string, documentUri: vscode.Uri, positio
 			return { methods: [], implBlocks: [], structName: symbol, filePath: '' };
 		}
 
-		searchPattern = `impl\\s+(?:<[^>]+>\\s+)?${structName}(?:<[^>]*>)?\\s*(?:for\\s+)?\\s*\\{`;
-
-		if (isExternalCrate) {
-			const defDir = defPath.substring(0, defPath.lastIndexOf('/'));
-			searchPath = defDir;
-		} else {
-			searchPath = cwd;
-		}
-
-		// Use execFile to prevent command injection
-		const { stdout } = await execFilePromise('grep', [
-			'-r',
-			'-E',
-			searchPattern,
-			searchPath,
-			'--include=*.rs',
-			'-A', MAX_GREP_CONTEXT_LINES.toString()
-		], { cwd, maxBuffer: 10 * 1024 * 1024 }).catch((err) => {
-			// grep returns exit code 1 when no matches found, which is not an error
-			return { stdout: err.stdout || '' };
-		});
+		// Where the name is defined, for backends that look up impls by position; aliases are resolved by name
+		const location = isTypeAlias
+			? await queryBackends(backend => backend.findType(structName!, cwd, token), token)
+			: itemNameLocation(defUri, lines, nameLine, structName);
+
+		// Impls in the workspace and in dependencies are only shown when those doc sources are enabled
+		const isImplSourceEnabled = (block: IndexedImplBlock) =>
+			isDocSourceEnabled(block.filePath.startsWith(cwd + path.sep) ? 'workspace' : 'dependencies');
+
+		// Traits: list their items and the types implementing them in the workspace and the defining crate
+		if (traitLine >= 0) {
+			const traitInfo = traitItems(structName, findItemAt(lines, traitLine, 'trait', structName)?.children || []);
+			const searchPaths = [
+				...(isDocSourceEnabled('workspace') ? [cwd] : []),
+				...(isExternalCrate && isDocSourceEnabled('dependencies') ? await getCrateSearchRoots(defPath, cwd) : [])
+			];
+			traitInfo.implementors = await findTraitImplementors({ name: structName, location, searchPaths }, isImplSourceEnabled, token);
+			return { methods: [], implBlocks: [], structName, filePath: defPath, traitInfo };
+		}
 
-		if (!stdout.trim()) {
-			return { methods: [], implBlocks: [], structName: symbol, filePath: '' };
+		if (!isDocSourceEnabled(isExternalCrate ? 'dependencies' : 'workspace')) {
+			return { methods: [], implBlocks: [], structName, filePath: defPath, derives, fields, variants };
 		}
 
-		const methods: Array<{signature: string, doc: string, line: number}> = [];
+		// Inherent impls (impl Type) and trait impls (impl Trait for Type), from the configured backends.
+		// Impls of a dependency's type are searched in that crate's sources
+		const searchPaths = isExternalCrate ? await getCrateSearchRoots(defPath, cwd) : [cwd];
+		const target: ImplTarget = { name: structName, location, searchPaths };
+		const blocks = await queryBackends(backend => backend.implsOf(target, token), token) || [];
+		const methods: MethodInfo[] = [];
 		const implBlocks: ImplBlock[] = [];
-		let currentImplBlock: ImplBlock | null = null;
-
-		const outputLines = stdout.split('\n');
-		for (let i = 0; i < outputLines.length; i++) {
-			let line = stripGrepPrefix(outputLines[i]);
-
-			// Check for impl block start
-			const implMatch = line.match(/^(impl(?:\s+<[^>]+>)?\s+(?:[\w:]+(?:\s+for\s+)?)?[\w<>:]+)\s*\{/);
-			if (implMatch) {
-				// Save previous impl block if it exists
-				if (currentImplBlock && currentImplBlock.methods.length > 0) {
-					implBlocks.push(currentImplBlock);
-				}
-
-				// Look backwards for comment before impl block
-				let implComment = '';
-				for (let j = i - 1; j >= Math.max(0, i - 5); j--) {
-					const prevLine = stripGrepPrefix(outputLines[j]);
-					const trimmed = prevLine.trim();
-					if (trimmed.startsWith('///')) {
-						implComment = trimmed.substring(3).trim();
-						break;
-					} else if (trimmed === '' || trimmed === '--') {
-						continue;
-					} else {
-						break;
-					}
-				}
-
-				currentImplBlock = {
-					header: implMatch[1].trim(),
-					comment: implComment || undefined,
-					methods: []
-				};
-			}
-
-			const fnMatch = line.match(/(?:pub\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(.+)/);
-
-			if (fnMatch) {
-				let signature = fnMatch[1].trim();
-
-				// If signature doesn't contain '{' and doesn't end with ')', collect continuation lines
-				if (!signature.includes('{') && !signature.endsWith(')')) {
-					for (let k = i + 1; k < outputLines.length && k < i + MAX_SIGNATURE_CONTINUATION_LINES; k++) {
-						const nextLine = stripGrepPrefix(outputLines[k]);
-						const trimmed = nextLine.trim();
-						if (trimmed === '--' || trimmed === '') {
-							continue;
-						}
-
-						signature += ' ' + trimmed;
-
-						if (trimmed.includes('{')) {
-							break;
-						}
-					}
-				}
-
-				if (signature.includes('{')) {
-					signature = signature.substring(0, signature.indexOf('{')).trim();
-				}
-
-				// Normalize whitespace: remove extra spaces after '(' and before ')'
-				signature = signature.replace(/\(\s+/g, '(').replace(/\s+\)/g, ')');
-				// Normalize multiple spaces to single space
-				signature = signature.replace(/\s+/g, ' ');
-
-				if (signature && !signature.startsWith('_')) {
-					let doc = '';
-					let docLines: string[] = [];
-
-					// Collect all doc lines
-					for (let j = i - 1; j >= 0 && j >= Math.max(0, i - MAX_DOC_LINES_TO_SCAN); j--) {
-						let prevLine = outputLines[j];
-
-						// Use helper to strip grep prefix
-						prevLine = stripGrepPrefix(prevLine);
-
-						const trimmed = prevLine.trim();
-
-						if (trimmed === '--' || trimmed === '') {
-							continue;
-						}
-
-						if (trimmed.startsWith('///')) {
-							const docLine = trimmed.substring(3).trim();
-							if (docLine && !docLine.startsWith('```') && !docLine.startsWith('#') && !docLine.startsWith('assert') && !docLine.startsWith('[') && !docLine.startsWith('*')) {
-								docLines.unshift(docLine); // Add to beginning
-							}
-						} else if (trimmed.startsWith('//!') || trimmed.startsWith('//')) {
-							continue;
-						} else if (trimmed.startsWith('#[')) {
-							continue;
-						} else {
-							if (docLines.length > 0) {
-								break;
-							}
-						}
-					}
-
-					// Use first paragraph (up to MIN_DOC_SENTENCES lines or until empty line)
-					if (docLines.length > 0) {
-						const paragraph: string[] = [];
-						for (const line of docLines) {
-							if (line === '') {
-								break;
-							}
-							paragraph.push(line);
-							if (paragraph.length >= MIN_DOC_SENTENCES) {
-								break;
-							}
-						}
-						doc = paragraph.join(' ');
-					}
-
-					const method = { signature, doc, line: i };
-					methods.push(method);
-					if (currentImplBlock) {
-						currentImplBlock.methods.push(method);
-					}
-				}
+		const sourceBlocks = blocks.filter(isImplSourceEnabled);
+		for (const block of sourceBlocks) {
+			const implBlock = await listImplBlock(block, cwd);
+			// Macro-generated blocks are kept even without methods: their invocation is all that is known
+			if (!implBlock || (implBlock.methods.length === 0 && !block.traitName && !block.generated)) {
+				continue;
 			}
+			methods.push(...implBlock.methods);
+			implBlocks.push(implBlock);
 		}
 
-		// Save the last impl block
-		if (currentImplBlock && currentImplBlock.methods.length > 0) {
-			implBlocks.push(currentImplBlock);
-		}
+		// Methods reachable by auto-deref, through the type's Deref impl and those of its targets
+		const start = location ? `${location.uri.fsPath}:${location.range.start.line}` : `name:${structName}`;
+		const derefSections = await getDerefSections(sourceBlocks, start, cwd, isImplSourceEnabled, token);
 
-		return { methods, implBlocks, structName, filePath: defPath };
+		return { methods, implBlocks, structName, filePath: defPath, derives, fields, variants, derefSections };
 	} catch (error) {
+		throwIfCancelled(token);
 		return { methods: [], implBlocks: [], structName: symbol, filePath: '' };
 	}
 }
@@ -806,7 +2929,7 @@ async function formatHoverInfo(hovers: vscode.Hover[], result?: StructMethodsRes
 	}
 
 	// Filter out symbols with insufficient documentation
-	if (docSentenceCount < MIN_DOC_SENTENCES) {
+	if (docSentenceCount < config.minDocSentences) {
 		return null;
 	}
 
@@ -861,12 +2984,20 @@ async function formatHoverInfo(hovers: vscode.Hover[], result?: StructMethodsRes
 	let isFirst = true;
 	let isStruct = false;
 
+	// "Self" in the docs of a member refers to its containing type, otherwise to the documented type itself
+	const containerName = getHoverContainerPath(hovers)?.split('::').pop();
+	const selfType = containerName && /^[A-Z]/.test(containerName) ? containerName : result?.structName ?? '';
+
+	// Examples of workspace items can be run as doctests
+	const cwd = documentUri && (vscode.workspace.getWorkspaceFolder(documentUri) || vscode.workspace.workspaceFolders?.[0])?.uri.fsPath;
+	const doctest = filePath ? await getDoctestTarget(filePath, line, cwd) : undefined;
+
 	for (const hover of hovers) {
 		for (const item of hover.contents) {
 			if (typeof item === 'string') {
-				content += `<p>${item}</p>`;
+				content += renderMarkdown(item, { filePath, line, selfType, doctest });
 			} else if (item instanceof vscode.MarkdownString) {
-				content += markdownToHtml(item.value, isFirst, filePath, line);
+				content += renderMarkdown(item.value, { filePath, line, selfType, firstBlockAsTitle: isFirst, doctest });
 				isFirst = false;
 			} else if ('value' in item) {
 				const value = item.value;
@@ -878,7 +3009,7 @@ async function formatHoverInfo(hovers: vscode.Hover[], result?: StructMethodsRes
 							isStruct = true;
 						}
 						if (filePath) {
-							content += `<h3><a href="#" onclick="openFile('${escapeHtml(filePath)}', ${line}); return false;">${escapeHtml(firstLine)}</a></h3>`;
+							content += `<h3>${sourceLinkOpen(filePath, line, '')}${escapeHtml(firstLine)}</a></h3>`;
 						} else {
 							content += `<h3>${escapeHtml(firstLine)}</h3>`;
 						}
@@ -893,22 +3024,36 @@ async function formatHoverInfo(hovers: vscode.Hover[], result?: StructMethodsRes
 						content += `<pre><code class="hljs">${highlighted}</code></pre>`;
 					}
 				} else {
-					content += `<p>${value}</p>`;
+					content += renderMarkdown(value, { filePath, line, selfType, doctest });
 				}
 			}
 		}
 	}
 
-	if (result && result.implBlocks && result.implBlocks.length > 0) {
-		for (const implBlock of result.implBlocks) {
+	if (result) {
+		content += renderTypeMembers(result);
+	}
+
+	if (result && result.traitInfo) {
+		content += renderTraitInfo(result.traitInfo, result.filePath);
+	} else if (result && result.implBlocks && result.implBlocks.length > 0) {
+		if (result.methods.length > 0 || (result.derefSections || []).length > 0) {
+			content += renderMethodControls();
+		}
+		for (const implBlock of result.implBlocks.filter(block => !block.traitName)) {
 			// Show impl block header
 			const header = implBlock.comment ? escapeHtml(implBlock.comment) : escapeHtml(implBlock.header);
-			content += `<h4>${header}</h4>`;
-			content += renderMethodsList(implBlock.methods, result.structName, result.filePath);
+			content += `<h4${implBlock.unavailable ? ' class="unavailable"' : ''}>${header}${renderCfgBadge(implBlock.cfg, implBlock.unavailable)}</h4>`;
+			content += renderMethodsList(implBlock.methods, result.structName, implBlock.filePath || result.filePath);
 		}
+		content += renderDerefSections(result);
+		content += renderTraitImplementations(result);
+	} else if (result && result.derives && result.derives.length > 0) {
+		content += renderTraitImplementations(result);
 	} else if (result && result.methods && result.methods.length > 0) {
 		// Fallback: show methods without grouping if implBlocks is empty
 		content += '<h4>Methods</h4>';
+		content += renderMethodControls();
 		content += renderMethodsList(result.methods, result.structName, result.filePath);
 	}
 
@@ -916,120 +3061,100 @@ async function formatHoverInfo(hovers: vscode.Hover[], result?: StructMethodsRes
 	return content;
 }
 
-function markdownToHtml(markdown: string, isFirst: boolean = false, filePath: string = '', line: number = 0): string {
-	let html = markdown.trim();
-
-	// Preserve code blocks by replacing with placeholders first
-	const codeBlocks: string[] = [];
-	html = html.replace(/```(\w+)?\n([\s\S]*?)```/g, (_match, lang, code) => {
-		if (isFirst) {
-			const lines = code.trim().split('\n');
-			const firstLine = lines[0].trim();
-			let result = '';
-			if (filePath) {
-				result = `<h3><a href="#" onclick="openFile('${escapeHtml(filePath)}', ${line}); return false;">${escapeHtml(firstLine)}</a></h3>`;
-			} else {
-				result = `<h3>${escapeHtml(firstLine)}</h3>`;
-			}
-			if (lines.length > 1) {
-				const restCode = lines.slice(1).join('\n').trim();
-				const highlighted = lang === 'rust' ? hljs.highlight(restCode, { language: 'rust' }).value : escapeHtml(restCode);
-				result += `<pre><code class="hljs">${highlighted}</code></pre>`;
-			}
-			isFirst = false;
-			codeBlocks.push(result);
-			return `__CODEBLOCK_${codeBlocks.length - 1}__`;
-		}
-		const highlighted = lang === 'rust' ? hljs.highlight(code.trim(), { language: 'rust' }).value : escapeHtml(code.trim());
-		const block = `<pre><code class="hljs">${highlighted}</code></pre>`;
-		codeBlocks.push(block);
-		return `__CODEBLOCK_${codeBlocks.length - 1}__`;
-	});
-
-	// Preserve inline code
-	const inlineCode: string[] = [];
-	html = html.replace(/`([^`]+)`/g, (_match, code) => {
-		inlineCode.push(`<code>${code}</code>`);
-		return `__INLINECODE_${inlineCode.length - 1}__`;
-	});
-
-	html = html.replace(/^---$/gm, '<hr>');
-	html = html.replace(/^### (.*$)/gm, '<h3>$1</h3>');
-	html = html.replace(/^## (.*$)/gm, '<h2>$1</h2>');
-	html = html.replace(/^# (.*$)/gm, '<h1>$1</h1>');
-
-	html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-	html = html.replace(/\*(.*?)\*/g, '<em>$1</em>');
-
-	html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-
-	// Handle paragraph breaks: double newlines become paragraph boundaries
-	html = html.replace(/\n\n+/g, '</p><p>');
-
-	// Single newlines within paragraphs become spaces (for natural text reflow)
-	// This allows documentation to wrap naturally to sidebar width
-	html = html.replace(/\n/g, ' ');
-
-	if (!html.startsWith('<h') && !html.startsWith('<pre') && !html.startsWith('__CODEBLOCK_')) {
-		html = '<p>' + html + '</p>';
-	}
-
-	// Restore code blocks
-	html = html.replace(/__CODEBLOCK_(\d+)__/g, (_match, index) => codeBlocks[parseInt(index)]);
-
-	// Restore inline code
-	html = html.replace(/__INLINECODE_(\d+)__/g, (_match, index) => inlineCode[parseInt(index)]);
-
-	return html;
-}
-
-function escapeHtml(text: string): string {
-	return text
-		.replace(/&/g, '&amp;')
-		.replace(/</g, '&lt;')
-		.replace(/>/g, '&gt;')
-		.replace(/"/g, '&quot;')
-		.replace(/'/g, '&#039;');
-}
-
 const outputChannel = vscode.window.createOutputChannel('Rust Docs Sidebar');
 
 export function activate(context: vscode.ExtensionContext) {
-	const provider = new RustDocsProvider(context.extensionUri);
+	const provider = new RustDocsProvider(context.extensionUri, context.workspaceState);
 
 	context.subscriptions.push(outputChannel);
 
+	// Keep the impl index in sync with the workspace sources, including unsaved edits
+	implCacheDir = context.globalStorageUri.fsPath;
+	// Manifest and lock file changes change the package graph
+	const manifestWatcher = vscode.workspace.createFileSystemWatcher('**/Cargo.{toml,lock}');
+	const invalidatePackageGraph = (uri: vscode.Uri) => cargoMetadata.invalidate(vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath);
+	context.subscriptions.push(
+		manifestWatcher,
+		manifestWatcher.onDidChange(invalidatePackageGraph),
+		manifestWatcher.onDidCreate(invalidatePackageGraph),
+		manifestWatcher.onDidDelete(invalidatePackageGraph)
+	);
+
+	const rustFileWatcher = vscode.workspace.createFileSystemWatcher('**/*.rs');
+	context.subscriptions.push(
+		rustFileWatcher,
+		rustFileWatcher.onDidChange(uri => implIndex.invalidate(uri.fsPath)),
+		rustFileWatcher.onDidCreate(uri => implIndex.invalidate(uri.fsPath, true)),
+		rustFileWatcher.onDidDelete(uri => implIndex.invalidate(uri.fsPath, true)),
+		vscode.workspace.onDidChangeTextDocument(event => {
+			if (event.document.languageId === 'rust' && event.contentChanges.length > 0) {
+				implIndex.invalidate(event.document.uri.fsPath);
+			}
+		})
+	);
+
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration(CONFIG_SECTION)) {
+				config = readConfig();
+				implIndex.settingsChanged();
+				provider.refresh();
+			}
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider('rust-docs-sidebar.docsView', provider)
 	);
 
+	// Cursor moves are debounced; each one supersedes (and cancels) the lookup for the previous position
+	const lookups = new LookupScheduler(() => config.lookupDelay);
+	context.subscriptions.push(lookups);
+
 	context.subscriptions.push(
-		vscode.window.onDidChangeTextEditorSelection(async (event) => {
-			try {
-				const editor = event.textEditor;
-				if (editor.document.languageId !== 'rust') {
-					return;
-				}
+		vscode.window.onDidChangeTextEditorSelection((event) => {
+			const editor = event.textEditor;
+			if (editor.document.languageId !== 'rust' || !provider.isFollowingCursor) {
+				return;
+			}
 
-				const position = editor.selection.active;
-				const wordRange = editor.document.getWordRangeAtPosition(position);
+			const position = editor.selection.active;
+			const wordRange = editor.document.getWordRangeAtPosition(position);
+			const word = wordRange ? editor.document.getText(wordRange) : '';
 
-				if (wordRange) {
-					const word = editor.document.getText(wordRange);
+			// Skip keywords
+			if (!word || isRustKeyword(word)) {
+				lookups.cancel();
+				provider.setLoading();
+				return;
+			}
 
-					// Skip keywords
-					if (isRustKeyword(word)) {
-						return;
+			const documentUri = editor.document.uri;
+			lookups.schedule(async (token) => {
+				provider.setLoading(word);
+				try {
+					const documentation = await getRustDocumentation(word, documentUri, position, token);
+					// The tab may have been pinned while the lookup was running
+					if (documentation !== null && !token.isCancellationRequested && provider.isFollowingCursor) {
+						provider.updateContent(documentation, word, {
+							kind: 'symbol',
+							symbol: word,
+							filePath: documentUri.fsPath,
+							line: position.line,
+							character: position.character
+						});
 					}
-
-					const documentation = await getRustDocumentation(word, editor.document.uri);
-					if (documentation !== null) {
-						provider.updateContent(documentation);
+				} catch (error) {
+					if (!(error instanceof vscode.CancellationError)) {
+						outputChannel.appendLine(`Error in selection handler: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					}
+				} finally {
+					// A superseding lookup shows its own loading state
+					if (!token.isCancellationRequested) {
+						provider.setLoading();
 					}
 				}
-			} catch (error) {
-				outputChannel.appendLine(`Error in selection handler: ${error instanceof Error ? error.message : 'Unknown error'}`);
-			}
+			});
 		})
 	);
 }
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ImplIndex, IndexedImplBlock, implTargetName } from './implIndex';
+import { throwIfCancelled } from './lookupScheduler';
+import { parseRustFile } from './rustParser';
+
+// A type or trait whose impl blocks are looked up
+export interface ImplTarget {
+	name: string;
+	// Where the name is written in its definition, for backends that work on positions
+	location?: vscode.Location;
+	// Directories the source index scans
+	searchPaths: string[];
+}
+
+// A source of impl blocks and type definitions. Queries a backend cannot answer resolve to an
+// empty result rather than an error, so the caller can fall back to another backend.
+export interface ImplBackend {
+	readonly name: string;
+	// Inherent and trait impl blocks of a type
+	implsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]>;
+	// Impl blocks of a trait
+	implementorsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]>;
+	// Definition of the type of the variable, field or parameter at a position
+	typeDefinitionAt(uri: vscode.Uri, position: vscode.Position, token?: vscode.CancellationToken): Promise<vscode.Location | undefined>;
+	// Definition of the type or trait with exactly this name, preferring one under root
+	findType(name: string, root: string, token?: vscode.CancellationToken): Promise<vscode.Location | undefined>;
+}
+
+// Symbol kinds rust-analyzer reports for structs, enums, unions and traits
+const TYPE_SYMBOL_KINDS = new Set([vscode.SymbolKind.Struct, vscode.SymbolKind.Enum, vscode.SymbolKind.Class, vscode.SymbolKind.Interface]);
+
+// Impl blocks from the extension's own index of the crate sources, found by type name.
+// Works without a language server, but misses impls generated by macros or written through type aliases.
+export class SourceIndexBackend implements ImplBackend {
+	public readonly name = 'source index';
+
+	constructor(private readonly _index: ImplIndex) {}
+
+	public async implsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		const blocks: IndexedImplBlock[] = [];
+		for (const root of target.searchPaths) {
+			blocks.push(...await this._index.implsOf(target.name, root, token));
+		}
+		return uniqueBlocks(blocks);
+	}
+
+	public async implementorsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		const blocks: IndexedImplBlock[] = [];
+		for (const root of target.searchPaths) {
+			blocks.push(...await this._index.implementorsOf(target.name, root, token));
+		}
+		return uniqueBlocks(blocks);
+	}
+
+	public async typeDefinitionAt(): Promise<vscode.Location | undefined> {
+		return undefined;
+	}
+
+	public async findType(): Promise<vscode.Location | undefined> {
+		return undefined;
+	}
+}
+
+// Impl blocks as rust-analyzer resolves them, through VS Code's implementation, symbol and type definition
+// providers. It sees the whole crate graph, so it finds impls in other crates and impls expanded from macros.
+// Blocks written in the source are taken from the index, which has their docs.
+export class RustAnalyzerBackend implements ImplBackend {
+	public readonly name = 'rust-analyzer';
+
+	constructor(private readonly _index: ImplIndex) {}
+
+	public implsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		return this._implementations(target, target.name, token);
+	}
+
+	public async implementorsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		return (await this._implementations(target, undefined, token)).filter(block => block.traitName || block.generated);
+	}
+
+	public async typeDefinitionAt(uri: vscode.Uri, position: vscode.Position, token?: vscode.CancellationToken): Promise<vscode.Location | undefined> {
+		const locations = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+			'vscode.executeTypeDefinitionProvider',
+			uri,
+			position
+		);
+		throwIfCancelled(token);
+		return locations && locations.length > 0 ? toLocation(locations[0]) : undefined;
+	}
+
+	public async findType(name: string, root: string, token?: vscode.CancellationToken): Promise<vscode.Location | undefined> {
+		const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', name);
+		throwIfCancelled(token);
+		const matches = (symbols || []).filter(symbol => symbol.name === name && TYPE_SYMBOL_KINDS.has(symbol.kind));
+		const symbol = matches.find(match => match.location.uri.fsPath.startsWith(root + path.sep)) || matches[0];
+		return symbol ? nameLocation(symbol.location, name) : undefined;
+	}
+
+	// Blocks around the locations the implementation provider reports for a type or trait.
+	// generatedSelfType names the implementing type of macro-generated blocks, when it is known.
+	private async _implementations(target: ImplTarget, generatedSelfType: string | undefined, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		if (!target.location) {
+			return [];
+		}
+		const locations = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+			'vscode.executeImplementationProvider',
+			target.location.uri,
+			target.location.range.start
+		);
+
+		const blocks: IndexedImplBlock[] = [];
+		for (const location of (locations || []).map(toLocation)) {
+			throwIfCancelled(token);
+			const block = await this._blockAt(location, generatedSelfType);
+			if (block) {
+				blocks.push(block);
+			}
+		}
+		throwIfCancelled(token);
+		return uniqueBlocks(blocks);
+	}
+
+	private async _blockAt(location: vscode.Location, generatedSelfType: string | undefined): Promise<IndexedImplBlock | undefined> {
+		const filePath = location.uri.fsPath;
+		const line = location.range.start.line;
+
+		// Impls written in the source, with the docs the index parsed
+		const parsed = (await this._index.blocksIn(filePath))
+			.filter(block => block.line <= line && line <= block.endLine)
+			.sort((a, b) => b.line - a.line)[0];
+		if (parsed) {
+			return parsed;
+		}
+
+		// Impls the item parser does not reach (e.g. inside a const block), from the provider's outline of the file
+		const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+			'vscode.executeDocumentSymbolProvider',
+			location.uri
+		);
+		const symbol = findImplSymbol(symbols || [], line);
+		if (symbol) {
+			return blockFromSymbol(symbol, filePath);
+		}
+
+		// Impls expanded from a macro are reported at the macro invocation
+		try {
+			const document = await vscode.workspace.openTextDocument(location.uri);
+			const invocation = document.lineAt(line).text.trim().replace(/;$/, '');
+			const macro = invocation.match(/^([\w:]+)\s*!/);
+			const selfType = generatedSelfType || invocation;
+			return {
+				header: invocation,
+				comment: macro ? `Generated by ${macro[1]}!` : undefined,
+				selfType,
+				selfName: implTargetName(selfType),
+				filePath,
+				line,
+				endLine: line,
+				methods: [],
+				generated: true
+			};
+		} catch {
+			return undefined;
+		}
+	}
+}
+
+function toLocation(location: vscode.Location | vscode.LocationLink): vscode.Location {
+	return 'targetUri' in location
+		? new vscode.Location(location.targetUri, location.targetSelectionRange || location.targetRange)
+		: location;
+}
+
+// Location of the name in a definition whose reported range may start at its docs or attributes
+async function nameLocation(location: vscode.Location, name: string): Promise<vscode.Location> {
+	try {
+		const document = await vscode.workspace.openTextDocument(location.uri);
+		const pattern = new RegExp(`\\b(?:struct|enum|union|trait|type)\\s+(${name})\\b`);
+		const lastLine = Math.min(location.range.end.line, document.lineCount - 1);
+		for (let line = location.range.start.line; line <= lastLine; line++) {
+			const match = pattern.exec(document.lineAt(line).text);
+			if (match) {
+				const character = match.index + match[0].length - name.length;
+				return new vscode.Location(location.uri, new vscode.Range(line, character, line, character + name.length));
+			}
+		}
+	} catch {
+		// Keep the reported location
+	}
+	return location;
+}
+
+// Innermost impl symbol (named like "impl Display for Wrapper") whose range contains a line
+function findImplSymbol(symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[], line: number): vscode.DocumentSymbol | undefined {
+	for (const symbol of symbols) {
+		if (!('children' in symbol) || symbol.range.start.line > line || symbol.range.end.line < line) {
+			continue;
+		}
+		const inner = findImplSymbol(symbol.children, line);
+		if (inner) {
+			return inner;
+		}
+		if (/^(?:unsafe\s+)?impl\b/.test(symbol.name)) {
+			return symbol;
+		}
+	}
+	return undefined;
+}
+
+function blockFromSymbol(symbol: vscode.DocumentSymbol, filePath: string): IndexedImplBlock {
+	// The symbol name is the impl header, which the item parser can split
+	const impl = parseRustFile(`${symbol.name} {}`).items[0]?.impl;
+	const selfType = impl ? impl.selfType : symbol.name.replace(/^(?:unsafe\s+)?impl\s*/, '');
+	return {
+		header: symbol.name,
+		traitName: impl?.traitName,
+		selfType,
+		selfName: implTargetName(selfType),
+		filePath,
+		line: symbol.range.start.line,
+		endLine: symbol.range.end.line,
+		methods: symbol.children
+			.filter(child => child.kind === vscode.SymbolKind.Method || child.kind === vscode.SymbolKind.Function)
+			.map(child => ({
+				// The detail is the signature without the name ("fn(&self) -> u8"), or with it
+				signature: child.name + (child.detail || '').replace(/^.*?\bfn\b\s*(?:\w+)?/, ''),
+				doc: '',
+				line: child.selectionRange.start.line,
+				isPublic: true,
+				qualifiers: (child.detail || '').match(/^(.*?)\bfn\b/)?.[1].match(/\b(?:const|async|unsafe)\b/g) || [],
+				stability: {}
+			}))
+	};
+}
+
+// Blocks in order, each once
+function uniqueBlocks(blocks: IndexedImplBlock[]): IndexedImplBlock[] {
+	const seen = new Set<string>();
+	return blocks.filter(block => {
+		const key = `${block.filePath}:${block.line}`;
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	});
+}
@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ItemStability, RustItem } from './rustParser';
+
+export interface IndexedMethod {
+	// Name, parameters and return type, e.g. "get(&self) -> u8"
+	signature: string;
+	doc: string;
+	line: number;
+	isPublic: boolean;
+	// Qualifiers written before `fn`: "const", "async", "unsafe", "extern \"C\""
+	qualifiers: string[];
+	// Deprecation and feature gate, from the method's attributes
+	stability: ItemStability;
+	// Predicate of the method's #[cfg] attributes, e.g. "feature = \"serde\""
+	cfg?: string;
+}
+
+export interface IndexedImplBlock {
+	// Header without the opening brace, e.g. "impl<T> Display for Wrapper<T>"
+	header: string;
+	comment?: string;
+	traitName?: string;
+	// Implementing type as written ("Wrapper<T>") and its base name ("Wrapper")
+	selfType: string;
+	selfName: string;
+	filePath: string;
+	line: number;
+	endLine: number;
+	methods: IndexedMethod[];
+	// Expanded from a macro: the header is the macro invocation, the implemented trait is unknown
+	generated?: boolean;
+	// Predicate of the block's #[cfg] attributes, including those of enclosing modules
+	cfg?: string;
+}
+
+// Parses the impl blocks of one source file
+export type ImplParser = (source: string, filePath: string) => IndexedImplBlock[];
+
+interface FileEntry {
+	// mtime of the parsed file, or the version of the unsaved document it was parsed from
+	version: string;
+	blocks: IndexedImplBlock[];
+	// Checked against the file system in this session (entries loaded from disk are not yet)
+	verified: boolean;
+}
+
+interface DiskCache {
+	fingerprint: string;
+	files: { [filePath: string]: { version: string; blocks: IndexedImplBlock[] } };
+}
+
+// Directories that never contain crate sources worth indexing
+const SKIPPED_DIRECTORIES = new Set(['target', 'node_modules', '.git']);
+
+const DISK_CACHE_FILE = 'impl-index.json';
+
+// Registry, git-dependency and toolchain sources are immutable for a given path (with either separator)
+export function isImmutableSource(filePath: string): boolean {
+	return /[\\/]\.cargo[\\/](?:registry[\\/]src|git[\\/]checkouts)[\\/]/.test(filePath)
+		|| /[\\/]\.rustup[\\/]toolchains[\\/]/.test(filePath)
+		|| /[\\/]lib[\\/]rustlib[\\/]src[\\/]/.test(filePath);
+}
+
+// Lazily filled index of impl blocks per source file.
+// Entries are keyed by path and modification time; workspace files are invalidated by the caller
+// (file watcher, document changes) and immutable sources are kept for the session and optionally on disk.
+export class ImplIndex {
+	private _files = new Map<string, FileEntry>();
+	private _fileLists = new Map<string, Promise<string[]>>();
+	private _diskCache?: Promise<void>;
+	// Where the disk cache was read from, and the fingerprint of the settings the entries were parsed with
+	private _diskCacheDir?: string;
+	private _filesFingerprint: string;
+	private _saveTimer?: NodeJS.Timeout;
+
+	constructor(
+		private readonly _parse: ImplParser,
+		// Directory for the on-disk cache of immutable sources (none: memory only)
+		private readonly _storageDir: () => string | undefined,
+		// Changes whenever settings that affect parsing change; cached results from other settings are dropped
+		private readonly _fingerprint: () => string,
+		// Whether the caller invalidates a path through its file watcher; other mutable files are checked on each lookup
+		private readonly _isWatched: (filePath: string) => boolean = filePath => !!vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))
+	) {
+		this._filesFingerprint = _fingerprint();
+	}
+
+	// All impl blocks under a directory whose implementing type is named typeName
+	public async implsOf(typeName: string, root: string, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		return (await this._blocksUnder(root, token)).filter(block => block.selfName === typeName);
+	}
+
+	// All trait impl blocks under a directory for a trait named traitName
+	public async implementorsOf(traitName: string, root: string, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		return (await this._blocksUnder(root, token)).filter(block => block.traitName !== undefined && traitBaseName(block.traitName) === traitName);
+	}
+
+	// A file was changed, created or deleted
+	public invalidate(filePath: string, listingChanged: boolean = false) {
+		this._files.delete(filePath);
+		if (listingChanged) {
+			for (const root of this._fileLists.keys()) {
+				if (filePath.startsWith(root + path.sep)) {
+					this._fileLists.delete(root);
+				}
+			}
+		}
+	}
+
+	// Settings changed. Entries are dropped when they were parsed with other settings, and the disk cache is read
+	// again then (it may hold entries for these settings) or when it was moved or switched on
+	public settingsChanged() {
+		const fingerprint = this._fingerprint();
+		if (fingerprint !== this._filesFingerprint) {
+			this._filesFingerprint = fingerprint;
+			this._files.clear();
+			this._diskCache = undefined;
+		} else if (this._storageDir() !== this._diskCacheDir) {
+			this._diskCache = undefined;
+		}
+	}
+
+	// All impl blocks of a single file
+	public async blocksIn(filePath: string): Promise<IndexedImplBlock[]> {
+		if (isImmutableSource(filePath)) {
+			await this._loadDiskCache();
+		}
+		const entry = await this._entry(filePath);
+		if (!entry) {
+			return [];
+		}
+		if (this._verify(filePath, entry)) {
+			this._scheduleSave();
+		}
+		return entry.blocks;
+	}
+
+	private async _blocksUnder(root: string, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]> {
+		if (isImmutableSource(root)) {
+			await this._loadDiskCache();
+		}
+
+		const blocks: IndexedImplBlock[] = [];
+		let parsedImmutable = false;
+		for (const filePath of await this._listRustFiles(root)) {
+			if (token?.isCancellationRequested) {
+				throw new vscode.CancellationError();
+			}
+			const entry = await this._entry(filePath);
+			if (entry) {
+				blocks.push(...entry.blocks);
+				parsedImmutable = this._verify(filePath, entry) || parsedImmutable;
+			}
+		}
+		if (parsedImmutable) {
+			this._scheduleSave();
+		}
+		return blocks;
+	}
+
+	// Mark an entry as checked in this session; true if it is a newly parsed immutable source worth saving
+	private _verify(filePath: string, entry: FileEntry): boolean {
+		const parsedImmutable = !entry.verified && isImmutableSource(filePath);
+		entry.verified = true;
+		return parsedImmutable;
+	}
+
+	// Cached entry of a file, re-parsed when its version changed; undefined if it cannot be read
+	private async _entry(filePath: string): Promise<FileEntry | undefined> {
+		const cached = this._files.get(filePath);
+		const immutable = isImmutableSource(filePath);
+		if (cached && cached.verified && (immutable || this._isWatched(filePath))) {
+			return cached;
+		}
+
+		// Unsaved edits are indexed from the editor's text
+		const document = vscode.workspace.textDocuments.find(doc => doc.isDirty && doc.uri.fsPath === filePath);
+		let version: string;
+		try {
+			version = document ? `doc:${document.version}` : `mtime:${(await fs.promises.stat(filePath)).mtimeMs}`;
+		} catch {
+			this._files.delete(filePath);
+			return undefined;
+		}
+		if (cached && cached.version === version) {
+			return cached;
+		}
+
+		try {
+			const source = document ? document.getText() : await fs.promises.readFile(filePath, 'utf8');
+			const entry: FileEntry = { version, blocks: this._parse(source, filePath), verified: false };
+			this._files.set(filePath, entry);
+			return entry;
+		} catch {
+			return undefined;
+		}
+	}
+
+	// All .rs files under a directory. Immutable trees are listed once per session and watched ones until a file is
+	// created or deleted; other trees (path dependencies, sibling crates) are listed again on each lookup
+	private _listRustFiles(root: string): Promise<string[]> {
+		if (!isImmutableSource(root) && !this._isWatched(root)) {
+			return listRustFiles(root);
+		}
+		let list = this._fileLists.get(root);
+		if (!list) {
+			list = listRustFiles(root);
+			list.catch(() => this._fileLists.delete(root));
+			this._fileLists.set(root, list);
+		}
+		return list;
+	}
+
+	private _loadDiskCache(): Promise<void> {
+		if (!this._diskCache) {
+			this._diskCache = (async () => {
+				const storageDir = this._storageDir();
+				this._diskCacheDir = storageDir;
+				if (!storageDir) {
+					return;
+				}
+				try {
+					const cache: DiskCache = JSON.parse(await fs.promises.readFile(path.join(storageDir, DISK_CACHE_FILE), 'utf8'));
+					if (cache.fingerprint !== this._fingerprint()) {
+						return;
+					}
+					for (const [filePath, entry] of Object.entries(cache.files)) {
+						if (!this._files.has(filePath)) {
+							// Verified against the file's mtime on first use
+							this._files.set(filePath, { ...entry, verified: false });
+						}
+					}
+				} catch {
+					// No cache yet, or an unreadable one that will be overwritten
+				}
+			})();
+		}
+		return this._diskCache;
+	}
+
+	// Write immutable sources to disk a little after indexing, batching consecutive lookups
+	private _scheduleSave() {
+		const storageDir = this._storageDir();
+		if (!storageDir || this._saveTimer) {
+			return;
+		}
+		this._saveTimer = setTimeout(async () => {
+			this._saveTimer = undefined;
+			const cache: DiskCache = { fingerprint: this._fingerprint(), files: {} };
+			for (const [filePath, entry] of this._files) {
+				if (isImmutableSource(filePath) && entry.verified) {
+					cache.files[filePath] = { version: entry.version, blocks: entry.blocks };
+				}
+			}
+			try {
+				await fs.promises.mkdir(storageDir, { recursive: true });
+				await fs.promises.writeFile(path.join(storageDir, DISK_CACHE_FILE), JSON.stringify(cache));
+			} catch {
+				// The disk cache is only an optimization
+			}
+		}, 2000);
+	}
+}
+
+// Base name of the type an impl targets, e.g. "Wrapper" for "crate::util::Wrapper<T>"
+export function implTargetName(selfType: string): string {
+	const match = selfType.replace(/^&\s*(?:'\w+\s+)?(?:mut\s+)?/, '').match(/^(?:\w+::)*(\w+)/);
+	return match ? match[1] : '';
+}
+
+// A method item and the impl or trait block containing it
+export interface MethodLocation {
+	item: RustItem;
+	container?: RustItem;
+}
+
+// Find a method by the line it was listed at; when the file changed since, by its name in an impl of
+// the parent type (or the parent trait), and last by its name alone
+export function findMethodItem(items: RustItem[], methodName: string, parentName: string, line: number): MethodLocation | undefined {
+	const methods: MethodLocation[] = [];
+	const visit = (children: RustItem[], container?: RustItem) => {
+		for (const item of children) {
+			if (item.kind === 'fn' && item.name === methodName) {
+				methods.push({ item, container });
+			} else if (item.kind === 'impl' || item.kind === 'trait' || item.kind === 'mod') {
+				visit(item.children, item.kind === 'mod' ? undefined : item);
+			}
+		}
+	};
+	visit(items);
+
+	const ownedByParent = ({ container }: MethodLocation) => !!container && (container.impl
+		? implTargetName(container.impl.selfType) === parentName || implTargetName(container.impl.traitName || '') === parentName
+		: container.name === parentName);
+	return methods.find(method => method.item.line === line)
+		|| methods.find(ownedByParent)
+		|| methods[0];
+}
+
+// "fmt::Display<T>" -> "Display"
+function traitBaseName(traitName: string): string {
+	const match = traitName.match(/(\w+)\s*(?:<.*)?$/);
+	return match ? match[1] : traitName;
+}
+
+async function listRustFiles(root: string): Promise<string[]> {
+	const files: string[] = [];
+	const pending = [root];
+	while (pending.length > 0) {
+		const dir = pending.pop()!;
+		let entries: fs.Dirent[];
+		try {
+			entries = await fs.promises.readdir(dir, { withFileTypes: true });
+		} catch {
+			continue;
+		}
+		for (const entry of entries) {
+			if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+				pending.push(path.join(dir, entry.name));
+			} else if (entry.isFile() && entry.name.endsWith('.rs')) {
+				files.push(path.join(dir, entry.name));
+			}
+		}
+	}
+	return files.sort();
+}
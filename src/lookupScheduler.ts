@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+
+// Stop a lookup once its token is cancelled; the scheduler ends it quietly
+export function throwIfCancelled(token?: vscode.CancellationToken) {
+	if (token?.isCancellationRequested) {
+		throw new vscode.CancellationError();
+	}
+}
+
+// Runs one lookup at a time: a new request waits for the debounce delay and cancels the previous one,
+// whether it is still waiting or already running (its child processes are killed through the token)
+export class LookupScheduler implements vscode.Disposable {
+	private _timer?: NodeJS.Timeout;
+	private _source?: vscode.CancellationTokenSource;
+
+	constructor(private readonly _getDelay: () => number) {}
+
+	public schedule(lookup: (token: vscode.CancellationToken) => Promise<void>) {
+		this.cancel();
+		const source = new vscode.CancellationTokenSource();
+		this._source = source;
+
+		this._timer = setTimeout(async () => {
+			this._timer = undefined;
+			try {
+				await lookup(source.token);
+			} catch (error) {
+				if (!(error instanceof vscode.CancellationError)) {
+					throw error;
+				}
+			} finally {
+				if (this._source === source) {
+					this._source = undefined;
+				}
+				source.dispose();
+			}
+		}, this._getDelay());
+	}
+
+	public cancel() {
+		this._source?.cancel();
+		// A lookup that never started will not dispose its token source itself
+		if (this._timer) {
+			clearTimeout(this._timer);
+			this._timer = undefined;
+			this._source?.dispose();
+		}
+		this._source = undefined;
+	}
+
+	public dispose() {
+		this.cancel();
+	}
+}
@@ -0,0 +1,346 @@
+import MarkdownIt from 'markdown-it';
+import hljs from 'highlight.js/lib/core';
+import rust from 'highlight.js/lib/languages/rust';
+
+hljs.registerLanguage('rust', rust);
+
+// Code block attributes rustdoc understands; a block with only these (or none) is Rust
+const RUSTDOC_CODE_ATTRIBUTES = new Set([
+	'rust', 'ignore', 'should_panic', 'no_run', 'compile_fail', 'standalone_crate', 'test_harness', 'edition2015',
+	'edition2018', 'edition2021', 'edition2024'
+]);
+
+// Doctests of an item as `cargo test --doc` names them: the package, the item path in the test name
+// (e.g. "shapes::Circle::area" in "util/src/shapes/mod.rs - shapes::Circle::area (line 6)") and the line of
+// each of its Rust examples, in order
+export interface DoctestTarget {
+	packageName: string;
+	path: string;
+	exampleLines: number[];
+}
+
+// The doctest of one example
+export interface DoctestExample {
+	packageName: string;
+	path: string;
+	line: number;
+}
+
+export interface MarkdownContext {
+	// Source file the docs come from; intra-doc links are resolved relative to it
+	filePath?: string;
+	// Line of the documented item (target of the title link)
+	line?: number;
+	// Type that "Self" refers to in intra-doc links
+	selfType?: string;
+	// Render the docs as a rust-analyzer hover: its code blocks before the first rule are the item's container path,
+	// shown as the heading, and its declaration
+	firstBlockAsTitle?: boolean;
+	// Doctests of a workspace item; its Rust examples get a "Run doctest" button
+	doctest?: DoctestTarget;
+}
+
+// Input validation: intra-doc link targets such as "Self::new", "crate::fmt::Item", "struct@Foo" or "vec!"
+export function isIntraDocPath(target: string): boolean {
+	return /^(?:[a-z]+@)?[A-Za-z_][A-Za-z0-9_]*(?:::[A-Za-z_][A-Za-z0-9_]*)*(?:\(\)|!)?$/.test(target);
+}
+
+// Escape text for use in HTML content and quoted attribute values
+export function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#039;');
+}
+
+// Rendering state of one Markdown text
+interface RenderEnv extends MarkdownContext {
+	// Rust examples rendered so far
+	examples: number;
+	// In the code blocks that start a hover, before its first rule
+	hoverHeader: boolean;
+}
+
+// Opening tag of a link to a source line, which the webview opens in the editor
+export function sourceLinkOpen(filePath: string, line: number, className: string = 'method-link'): string {
+	const classAttribute = className ? ` class="${className}"` : '';
+	return `<a href="#"${classAttribute} data-source-file="${escapeHtml(filePath)}" data-source-line="${line}">`;
+}
+
+// Conventional doc sections that warn about the item's behaviour, each styled on its own
+const WARNING_SECTIONS = new Set(['panics', 'errors', 'safety']);
+
+// Badge text of the attributes worth pointing out on an example
+const EXAMPLE_BADGES = new Map([
+	['ignore', 'ignore'],
+	['no_run', 'no run'],
+	['should_panic', 'should panic'],
+	['compile_fail', 'compile fail'],
+	['standalone_crate', 'standalone crate'],
+	['test_harness', 'test harness']
+]);
+
+// Attributes of a fence info string: "rust, no_run" -> ["rust", "no_run"]
+function codeBlockAttributes(info: string): string[] {
+	return info.split(/[\s,]+/).filter(attr => attr.length > 0);
+}
+
+// Whether fence attributes ([], ["rust", "ignore"], ["text"], ...) mark a Rust code block; "ignore-wasm32" ignores one target
+function isRustCodeBlock(attributes: string[]): boolean {
+	return attributes.every(attr => RUSTDOC_CODE_ATTRIBUTES.has(attr) || attr.startsWith('ignore-'));
+}
+
+// Drop rustdoc's hidden lines ("# use foo;") from a Rust example, unescaping "##" lines
+function stripHiddenLines(code: string): string {
+	return code.split('\n')
+		.filter(line => !/^\s*#(\s|$)/.test(line))
+		.map(line => line.replace(/^(\s*)##/, '$1#'))
+		.join('\n');
+}
+
+// The whole Rust example as rustdoc compiles it: hidden lines without their "# " marker, "##" lines unescaped
+function revealHiddenLines(code: string): string {
+	return code.split('\n')
+		.map(line => line.replace(/^(\s*)#(?: |$)/, '$1').replace(/^(\s*)##/, '$1#'))
+		.join('\n');
+}
+
+function highlightCode(code: string, isRust: boolean): string {
+	return isRust ? hljs.highlight(code, { language: 'rust' }).value : escapeHtml(code);
+}
+
+// Opening tag of a collapsible doc section; the webview remembers which section names were collapsed
+export function docSectionOpen(title: string): string {
+	const name = title.replace(/\s+/g, ' ').trim().toLowerCase();
+	const className = WARNING_SECTIONS.has(name) ? `doc-section ${name}` : 'doc-section';
+	return `<details class="${className}" data-section="${escapeHtml(name)}" open>`;
+}
+
+// Badge for a fence attribute ("edition2021" -> "edition 2021"), or undefined for ones not worth showing ("rust")
+function exampleBadge(attribute: string): string | undefined {
+	const edition = attribute.match(/^edition(\d+)$/);
+	if (edition) {
+		return `edition ${edition[1]}`;
+	}
+	if (attribute.startsWith('ignore-')) {
+		return `ignore on ${attribute.substring('ignore-'.length)}`;
+	}
+	return EXAMPLE_BADGES.get(attribute);
+}
+
+// Toolbar of an example: badges for its rustdoc attributes, copy and insert buttons, a hidden lines toggle
+// and "Run doctest" for examples of workspace items. The webview reads the code from the <pre> next to it
+export function renderExampleToolbar(attributes: string[], doctest?: DoctestExample, hasHiddenLines: boolean = false): string {
+	const badges = attributes
+		.map(exampleBadge)
+		.filter((badge): badge is string => badge !== undefined)
+		.map(badge => `<span class="example-badge">${escapeHtml(badge)}</span>`);
+	const isRunnable = doctest && !attributes.some(attr => attr === 'ignore' || attr.startsWith('ignore-'));
+
+	let toolbar = `<div class="example-toolbar"><span class="example-badges">${badges.join('')}</span>`;
+	if (hasHiddenLines) {
+		toolbar += '<button class="example-action" data-example-action="toggleHidden">Show hidden lines</button>';
+	}
+	toolbar += '<button class="example-action" data-example-action="copy">Copy</button>';
+	toolbar += '<button class="example-action" data-example-action="insert">Insert at cursor</button>';
+	if (isRunnable) {
+		toolbar += `<button class="example-action" data-example-action="run" data-package="${escapeHtml(doctest.packageName)}" data-doctest="${escapeHtml(doctest.path)}" data-doctest-line="${doctest.line}">Run doctest</button>`;
+	}
+	return toolbar + '</div>';
+}
+
+// An example code block with its toolbar. Rust examples with hidden lines carry both versions of the code,
+// and the webview shows one of them
+function renderExample(code: string, attributes: string[], doctest?: DoctestExample): string {
+	if (!isRustCodeBlock(attributes)) {
+		return `<div class="example-wrap">${renderExampleToolbar([])}<pre><code class="hljs">${highlightCode(code.trim(), false)}</code></pre></div>\n`;
+	}
+	const visible = stripHiddenLines(code).trim();
+	const full = revealHiddenLines(code).trim();
+	const codeHtml = visible === full
+		? `<code class="hljs">${highlightCode(visible, true)}</code>`
+		: `<code class="hljs example-visible">${highlightCode(visible, true)}</code><code class="hljs example-full">${highlightCode(full, true)}</code>`;
+	return `<div class="example-wrap">${renderExampleToolbar(attributes, doctest, visible !== full)}<pre>${codeHtml}</pre></div>\n`;
+}
+
+// Reference links without a definition, e.g. [`Duration`], [Vec] or [slice][prim@slice], are rustdoc intra-doc links
+function intraDocShortcutLink(state: MarkdownIt.StateInline, silent: boolean): boolean {
+	const start = state.pos;
+	if (state.src.charCodeAt(start) !== 0x5B /* [ */) {
+		return false;
+	}
+	// "v[i]" is indexing, not a link
+	if (start > 0 && /\w/.test(state.src[start - 1])) {
+		return false;
+	}
+
+	const labelEnd = state.md.helpers.parseLinkLabel(state, start, true);
+	if (labelEnd < 0) {
+		return false;
+	}
+	if (state.src[labelEnd + 1] === '(') {
+		return false;
+	}
+
+	// [text][path] names its target in the second label; collapsed [text][] uses the text
+	let label = state.src.slice(start + 1, labelEnd);
+	let end = labelEnd + 1;
+	if (state.src[end] === '[') {
+		const referenceEnd = state.md.helpers.parseLinkLabel(state, end, false);
+		if (referenceEnd < 0) {
+			return false;
+		}
+		label = state.src.slice(end + 1, referenceEnd) || label;
+		end = referenceEnd + 1;
+	}
+
+	// Single letters are usually generic parameters in prose ("a slice [T]")
+	const target = label.replace(/`/g, '').trim();
+	if (target.length < 2 || !isIntraDocPath(target)) {
+		return false;
+	}
+
+	if (!silent) {
+		state.push('link_open', 'a', 1).attrs = [['href', target]];
+		const oldMax = state.posMax;
+		state.pos = start + 1;
+		state.posMax = labelEnd;
+		state.md.inline.tokenize(state);
+		state.posMax = oldMax;
+		state.push('link_close', 'a', -1);
+	}
+	state.pos = end;
+	return true;
+}
+
+function createRenderer(): MarkdownIt {
+	// Raw HTML is escaped rather than passed through
+	const md = new MarkdownIt('default', { html: false, linkify: true, typographer: false });
+	md.inline.ruler.after('link', 'intra_doc_shortcut', intraDocShortcutLink);
+
+	// Headings in docs start at h1; nest them one level below the item's own heading, like rustdoc
+	md.core.ruler.push('shift_headings', state => {
+		for (const token of state.tokens) {
+			if (token.type === 'heading_open' || token.type === 'heading_close') {
+				token.tag = `h${Math.min(6, parseInt(token.tag.substring(1)) + 1)}`;
+			}
+		}
+	});
+
+	// Top-level headings ("# Examples", "# Panics") split the docs into collapsible sections,
+	// with the heading as the section's summary
+	md.core.ruler.push('doc_sections', state => {
+		const headings = state.tokens.filter(token => token.type === 'heading_open' && token.level === 0);
+		const sectionTag = headings.map(token => token.tag).sort()[0];
+		if (!sectionTag) {
+			return;
+		}
+		const html = (content: string) => Object.assign(new state.Token('html_block', '', 0), { content });
+		const tokens: MarkdownIt.Token[] = [];
+		let isOpen = false;
+		for (let i = 0; i < state.tokens.length; i++) {
+			const token = state.tokens[i];
+			if (token.type === 'heading_open' && token.level === 0 && token.tag === sectionTag) {
+				if (isOpen) {
+					tokens.push(html('</details>\n'));
+				}
+				tokens.push(html(`${docSectionOpen(state.tokens[i + 1].content)}<summary>`), token);
+				isOpen = true;
+			} else if (token.type === 'heading_close' && token.level === 0 && token.tag === sectionTag) {
+				tokens.push(token, html('</summary>\n'));
+			} else {
+				tokens.push(token);
+			}
+		}
+		if (isOpen) {
+			tokens.push(html('</details>\n'));
+		}
+		state.tokens = tokens;
+	});
+
+	md.renderer.rules.fence = (tokens, idx, _options, env: RenderEnv) => {
+		const token = tokens[idx];
+		const attributes = codeBlockAttributes(token.info);
+		const isRust = isRustCodeBlock(attributes);
+
+		if (env.hoverHeader && !env.firstBlockAsTitle) {
+			return `<pre class="item-decl"><code class="hljs">${highlightCode(token.content.trim(), isRust)}</code></pre>\n`;
+		}
+		if (env.firstBlockAsTitle) {
+			const code = (isRust ? stripHiddenLines(token.content) : token.content).trim();
+			env.firstBlockAsTitle = false;
+			const lines = code.split('\n');
+			const firstLine = lines[0].trim();
+			let result = env.filePath
+				? `<h3>${sourceLinkOpen(env.filePath, env.line ?? 0, '')}${escapeHtml(firstLine)}</a></h3>`
+				: `<h3>${escapeHtml(firstLine)}</h3>`;
+			if (lines.length > 1) {
+				result += `<pre><code class="hljs">${highlightCode(lines.slice(1).join('\n').trim(), isRust)}</code></pre>`;
+			}
+			return result;
+		}
+		return renderExample(token.content, attributes, isRust ? doctestExample(env.doctest, env.examples++) : undefined);
+	};
+
+	// The rule after a hover's declaration starts its docs
+	md.renderer.rules.hr = (tokens, idx, options, env: RenderEnv, self) => {
+		env.hoverHeader = false;
+		return self.renderToken(tokens, idx, options);
+	};
+
+	// Indented code blocks in docs are Rust examples too
+	md.renderer.rules.code_block = (tokens, idx, _options, env: RenderEnv) => {
+		return renderExample(tokens[idx].content, [], doctestExample(env.doctest, env.examples++));
+	};
+
+	// Web links open externally, Rust paths become intra-doc links resolved on click, anything else is plain text
+	md.renderer.rules.link_open = (tokens, idx, _options, env: MarkdownContext) => {
+		const href = tokens[idx].attrGet('href') || '';
+		const itemPath = md.normalizeLinkText(href).replace(/`/g, '');
+		if (/^https?:\/\//i.test(href)) {
+			return `<a href="${escapeHtml(href)}">`;
+		}
+		if (isIntraDocPath(itemPath)) {
+			return `<a href="#" class="intra-doc-link" data-intra-doc="${escapeHtml(itemPath)}" data-file-path="${escapeHtml(env.filePath ?? '')}" data-self-type="${escapeHtml(env.selfType ?? '')}">`;
+		}
+		const close = tokens.slice(idx).find(token => token.type === 'link_close');
+		if (close) {
+			close.meta = { plainText: true };
+		}
+		return '';
+	};
+	md.renderer.rules.link_close = (tokens: MarkdownIt.Token[], idx: number) => tokens[idx].meta?.plainText ? '' : '</a>';
+
+	// Images (badges, diagrams) are not loaded into the webview; show their alt text, linking to web images
+	md.renderer.rules.image = (tokens, idx) => {
+		const token = tokens[idx];
+		const src = token.attrGet('src') || '';
+		const alt = escapeHtml(token.content);
+		return /^https?:\/\//i.test(src) ? `<a href="${escapeHtml(src)}">${alt}</a>` : alt;
+	};
+
+	return md;
+}
+
+const renderer = createRenderer();
+
+// Render documentation Markdown (CommonMark + GFM tables, strikethrough and autolinks) as sanitized HTML
+export function renderMarkdown(markdown: string, context: MarkdownContext = {}): string {
+	const env: RenderEnv = { ...context, examples: 0, hoverHeader: !!context.firstBlockAsTitle };
+	return renderer.render(markdown, env);
+}
+
+// 0-based lines of the Rust examples of Markdown docs, those rustdoc runs as doctests (ignored ones included)
+export function exampleLines(markdown: string): number[] {
+	return renderer.parse(markdown, {})
+		.filter(token => token.type === 'code_block' || (token.type === 'fence' && isRustCodeBlock(codeBlockAttributes(token.info))))
+		.map(token => token.map![0]);
+}
+
+// The doctest of the index-th Rust example of an item, unless its line is unknown
+export function doctestExample(doctest: DoctestTarget | undefined, index: number): DoctestExample | undefined {
+	const line = doctest?.exampleLines[index];
+	return doctest && line !== undefined ? { packageName: doctest.packageName, path: doctest.path, line } : undefined;
+}
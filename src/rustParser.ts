@@ -0,0 +1,899 @@
+// Tokenizer and item parser for Rust sources. It knows enough of the grammar to find items with their docs,
+// attributes, visibility and bodies, without being misled by comments, string literals or macro bodies.
+// Function bodies, expressions and macro invocations are skipped as balanced token groups.
+
+export type TokenKind = 'ident' | 'lifetime' | 'literal' | 'punct' | 'outerDoc' | 'innerDoc';
+
+export interface Token {
+	kind: TokenKind;
+	// Source text; for doc comments the documentation text without comment markers
+	text: string;
+	start: number;
+	end: number;
+	// 0-based line of the first character
+	line: number;
+}
+
+export type ItemKind = 'fn' | 'struct' | 'enum' | 'union' | 'trait' | 'impl' | 'type' | 'const' | 'static' | 'mod' | 'use'
+	| 'externCrate' | 'externBlock' | 'macro' | 'macroCall' | 'field' | 'variant';
+
+export interface ImplInfo {
+	// Generic parameters including the angle brackets, e.g. "<T: Display>"
+	generics: string;
+	traitName?: string;
+	// impl !Send for T
+	negative: boolean;
+	selfType: string;
+	whereClause?: string;
+}
+
+export interface RustItem {
+	kind: ItemKind;
+	// Empty for impls and extern blocks; the macro path for macro invocations
+	name: string;
+	// "", "pub", "pub(crate)", "pub(in crate::a)", ...
+	visibility: string;
+	// default, const, async, unsafe, safe, extern "C", auto
+	qualifiers: string[];
+	// Attribute contents other than docs, e.g. "inline" or "cfg(feature = \"std\")"
+	attributes: string[];
+	docs: string;
+	// Declaration up to the body or semicolon, on one line, e.g. "pub fn new(value: T) -> Self"
+	signature: string;
+	line: number;
+	endLine: number;
+	// Items declared in the body of an impl, trait, inline module or extern block; the fields of a struct, union or
+	// enum variant (tuple fields named "0", "1", ...); the variants of an enum
+	children: RustItem[];
+	// Whether a fn has a body, as a trait's provided methods do
+	hasBody?: boolean;
+	// Type of a field, e.g. "Vec<T>"
+	fieldType?: string;
+	// Inner docs (//! or #![doc]) of an inline module
+	innerDocs?: string;
+	impl?: ImplInfo;
+}
+
+export interface ParsedFile {
+	items: RustItem[];
+	// Inner docs of the file's module (//! or #![doc])
+	innerDocs: string;
+}
+
+const IDENT_START = /[\p{L}_]/u;
+const IDENT_CONTINUE = /[\p{L}\p{N}_]/u;
+const NUMBER = /[0-9][0-9A-Za-z_]*(?:\.[0-9][0-9A-Za-z_]*)?/y;
+
+// Split Rust source into tokens; plain comments and whitespace are dropped, doc comments are kept
+export function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+	let line = 0;
+
+	const advanceTo = (end: number) => {
+		for (let newline = source.indexOf('\n', pos); newline >= 0 && newline < end; newline = source.indexOf('\n', newline + 1)) {
+			line++;
+		}
+		pos = end;
+	};
+	const push = (kind: TokenKind, end: number, text: string = source.slice(pos, end)) => {
+		tokens.push({ kind, text, start: pos, end, line });
+		advanceTo(end);
+	};
+
+	while (pos < source.length) {
+		const ch = source[pos];
+		const next = source[pos + 1];
+
+		if (ch === ' ' || ch === '\n' || ch === '\t' || ch === '\r') {
+			if (ch === '\n') {
+				line++;
+			}
+			pos++;
+			continue;
+		}
+
+		// Line comments: /// and //! are docs, //// is a plain comment
+		if (ch === '/' && next === '/') {
+			let end = source.indexOf('\n', pos);
+			if (end < 0) {
+				end = source.length;
+			}
+			const text = source.slice(pos, end);
+			if (text.startsWith('///') && !text.startsWith('////')) {
+				push('outerDoc', end, text.substring(3).replace(/\r$/, ''));
+			} else if (text.startsWith('//!')) {
+				push('innerDoc', end, text.substring(3).replace(/\r$/, ''));
+			} else {
+				advanceTo(end);
+			}
+			continue;
+		}
+
+		// Block comments nest; /** */ and /*! */ are docs, /**/ and /*** */ are plain comments
+		if (ch === '/' && next === '*') {
+			let depth = 0;
+			let end = pos;
+			while (end < source.length) {
+				if (source.startsWith('/*', end)) {
+					depth++;
+					end += 2;
+				} else if (source.startsWith('*/', end)) {
+					depth--;
+					end += 2;
+					if (depth === 0) {
+						break;
+					}
+				} else {
+					end++;
+				}
+			}
+			const text = source.slice(pos, end);
+			const isOuter = text.startsWith('/**') && !text.startsWith('/***') && text !== '/**/';
+			if ((isOuter || text.startsWith('/*!')) && text.endsWith('*/')) {
+				push(isOuter ? 'outerDoc' : 'innerDoc', end, blockDocText(text.slice(3, -2)));
+			} else {
+				advanceTo(end);
+			}
+			continue;
+		}
+
+		// Raw strings (r"..", br#".."#, cr".."), raw identifiers (r#match) and prefixed literals (b"..", b'x', c"..")
+		const prefix = ch === 'b' || ch === 'c' || ch === 'r' ? /^(?:br|cr|b|c|r)(?=["'#])/.exec(source.substring(pos, pos + 3)) : null;
+		if (prefix) {
+			const afterPrefix = pos + prefix[0].length;
+			if (prefix[0].endsWith('r')) {
+				let hashes = 0;
+				while (source[afterPrefix + hashes] === '#') {
+					hashes++;
+				}
+				if (source[afterPrefix + hashes] === '"') {
+					const terminator = '"' + '#'.repeat(hashes);
+					const close = source.indexOf(terminator, afterPrefix + hashes + 1);
+					push('literal', close < 0 ? source.length : close + terminator.length);
+					continue;
+				}
+				if (prefix[0] === 'r' && hashes === 1 && IDENT_START.test(source[afterPrefix + 1] ?? '')) {
+					const end = identEnd(source, afterPrefix + 2);
+					push('ident', end, source.slice(afterPrefix + 1, end));
+					continue;
+				}
+			} else if (source[afterPrefix] === '"' || source[afterPrefix] === '\'') {
+				push('literal', quotedEnd(source, afterPrefix));
+				continue;
+			}
+		}
+
+		if (ch === '"') {
+			push('literal', quotedEnd(source, pos));
+			continue;
+		}
+
+		// 'x' and '\n' are characters; 'a and 'static are lifetimes (or loop labels)
+		if (ch === '\'') {
+			const charLength = next === undefined ? 1 : String.fromCodePoint(source.codePointAt(pos + 1)!).length;
+			if (next === '\\' || source[pos + 1 + charLength] === '\'') {
+				push('literal', quotedEnd(source, pos));
+			} else {
+				push('lifetime', identEnd(source, pos + 1));
+			}
+			continue;
+		}
+
+		if ((ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_' || (ch > '\x7f' && IDENT_START.test(ch))) {
+			push('ident', identEnd(source, pos + 1));
+			continue;
+		}
+
+		if (ch >= '0' && ch <= '9') {
+			NUMBER.lastIndex = pos;
+			NUMBER.exec(source);
+			push('literal', NUMBER.lastIndex);
+			continue;
+		}
+
+		const pair = ch + next;
+		push('punct', pos + (pair === '::' || pair === '->' || pair === '=>' ? 2 : 1));
+	}
+
+	return tokens;
+}
+
+// End offset of the identifier characters starting at from
+function identEnd(source: string, from: number): number {
+	let end = from;
+	while (end < source.length) {
+		const code = source.charCodeAt(end);
+		const isAscii = (code >= 97 && code <= 122) || (code >= 65 && code <= 90) || (code >= 48 && code <= 57) || code === 95;
+		if (!isAscii && (code < 128 || !IDENT_CONTINUE.test(source[end]))) {
+			break;
+		}
+		end++;
+	}
+	return end;
+}
+
+// End offset of a quoted literal starting at start ("..." or '...'), honouring backslash escapes
+function quotedEnd(source: string, start: number): number {
+	const quote = source[start];
+	let end = start + 1;
+	while (end < source.length && source[end] !== quote) {
+		end += source[end] === '\\' ? 2 : 1;
+	}
+	return Math.min(end + 1, source.length);
+}
+
+// Text of a /** */ doc comment: drop the leading " * " decoration that multi-line block docs usually have
+function blockDocText(body: string): string {
+	const lines = body.split('\n').map(line => line.replace(/\r$/, ''));
+	const decorated = lines.slice(1).filter(line => line.trim() !== '').every(line => /^\s*\*/.test(line));
+	const stripped = decorated ? lines.map((line, index) => index === 0 ? line : line.replace(/^\s*\* ?/, '')) : lines;
+	if (stripped.length > 1 && stripped[0].trim() === '') {
+		stripped.shift();
+	}
+	if (stripped.length > 1 && stripped[stripped.length - 1].trim() === '') {
+		stripped.pop();
+	}
+	return stripped.join('\n');
+}
+
+// Value of a (possibly raw) string literal token
+function stringLiteralValue(literal: string): string {
+	const raw = /^[bc]?r(#*)"([\s\S]*)"\1$/.exec(literal);
+	if (raw) {
+		return raw[2];
+	}
+	const quoted = /^[bc]?"([\s\S]*)"$/.exec(literal);
+	if (!quoted) {
+		return literal;
+	}
+	return quoted[1].replace(/\\(?:\r?\n\s*|u\{([0-9a-fA-F]+)\}|x([0-9a-fA-F]{2})|(.))/g, (_match, unicode, hex, escaped) => {
+		if (unicode) {
+			return String.fromCodePoint(parseInt(unicode, 16));
+		}
+		if (hex) {
+			return String.fromCharCode(parseInt(hex, 16));
+		}
+		switch (escaped) {
+			case undefined: return '';
+			case 'n': return '\n';
+			case 't': return '\t';
+			case 'r': return '\r';
+			case '0': return '\0';
+			default: return escaped;
+		}
+	});
+}
+
+// Remove the indentation common to all non-empty lines, as rustdoc does for doc comments
+function unindent(lines: string[]): string {
+	const indents = lines.filter(line => line.trim() !== '').map(line => line.match(/^\s*/)![0].length);
+	const common = indents.length > 0 ? Math.min(...indents) : 0;
+	return lines.map(line => line.substring(common).trimEnd()).join('\n').trim();
+}
+
+const QUALIFIERS = new Set(['default', 'const', 'async', 'unsafe', 'safe', 'extern', 'auto']);
+// Keywords a qualifier may be followed by (anything else makes "const"/"default"/... the item keyword or a name)
+const QUALIFIED_KEYWORDS = new Set(['fn', 'impl', 'trait', 'const', 'async', 'unsafe', 'safe', 'extern', 'auto', 'type', 'static', 'mod', 'crate']);
+
+class ItemParser {
+	// Index of the matching closing (or opening) bracket of every (, [ and {
+	private readonly _matching: number[];
+
+	constructor(private readonly _tokens: Token[]) {
+		this._matching = new Array(_tokens.length).fill(-1);
+		const stack: number[] = [];
+		const pairs: { [close: string]: string } = { ')': '(', ']': '[', '}': '{' };
+		_tokens.forEach((token, index) => {
+			if (token.kind !== 'punct') {
+				return;
+			}
+			if (token.text === '(' || token.text === '[' || token.text === '{') {
+				stack.push(index);
+			} else if (pairs[token.text]) {
+				// Unbalanced input: close the nearest matching opener and drop the ones in between
+				const openerIndex = stack.map(open => _tokens[open].text).lastIndexOf(pairs[token.text]);
+				if (openerIndex >= 0) {
+					const open = stack[openerIndex];
+					stack.length = openerIndex;
+					this._matching[open] = index;
+					this._matching[index] = open;
+				}
+			}
+		});
+	}
+
+	// Parse the items between two token indices (exclusive end), e.g. a file or the inside of a body
+	public parseItems(from: number, to: number): ParsedFile {
+		const items: RustItem[] = [];
+		const innerDocs: string[] = [];
+		let docs: string[] = [];
+		let attributes: string[] = [];
+		let i = from;
+
+		while (i < to) {
+			const attribute = this._docOrAttribute(i);
+			if (attribute) {
+				if (attribute.docs !== undefined) {
+					(attribute.inner ? innerDocs : docs).push(...attribute.docs.split('\n'));
+				} else if (!attribute.inner) {
+					attributes.push(attribute.attribute!);
+				}
+				i = attribute.next;
+				continue;
+			}
+
+			const item = this._parseItem(i, to);
+			if (item) {
+				item.item.docs = unindent(docs);
+				item.item.attributes = attributes;
+				items.push(item.item);
+				i = item.next;
+			} else {
+				// Not an item (stray tokens, or code we do not understand): skip a token or a whole group
+				i = this._matching[i] > i ? this._matching[i] + 1 : i + 1;
+			}
+			docs = [];
+			attributes = [];
+		}
+
+		return { items, innerDocs: unindent(innerDocs) };
+	}
+
+	// A doc comment or attribute at index i: its docs or attribute text, whether it is inner (//! or #![...]), and the
+	// index after it. Undefined for anything else
+	private _docOrAttribute(i: number): { docs?: string; attribute?: string; inner: boolean; next: number } | undefined {
+		const token = this._tokens[i];
+		if (token.kind === 'innerDoc' || token.kind === 'outerDoc') {
+			return { docs: token.text, inner: token.kind === 'innerDoc', next: i + 1 };
+		}
+		// Attributes: #[...] on the next item, #![...] on the enclosing one
+		if (this._is(i, '#')) {
+			const inner = this._is(i + 1, '!');
+			const open = inner ? i + 2 : i + 1;
+			if (this._is(open, '[') && this._matching[open] > open) {
+				const close = this._matching[open];
+				const docValue = this._docAttribute(open + 1, close);
+				return docValue !== undefined
+					? { docs: docValue, inner, next: close + 1 }
+					: { attribute: this._text(open + 1, close), inner, next: close + 1 };
+			}
+		}
+		return undefined;
+	}
+
+	// "pub", "pub(crate)", ... at index start (empty when there is none), and the index after it
+	private _parseVisibility(start: number): { visibility: string; next: number } {
+		let i = start;
+		if (this._isIdent(i, 'pub')) {
+			i++;
+			// pub(crate), pub(super), pub(in path); a tuple type after "pub" would not start with these
+			if (this._is(i, '(') && /^(?:crate|super|self|in)$/.test(this._tokens[i + 1]?.text ?? '')) {
+				i = this._matching[i] + 1;
+			}
+		}
+		return { visibility: this._text(start, i).replace(/\s+/g, ''), next: i };
+	}
+
+	// Parse one item starting at index start; returns the item and the index after it
+	private _parseItem(start: number, to: number): { item: RustItem; next: number } | undefined {
+		const { visibility, next } = this._parseVisibility(start);
+		let i = next;
+
+		const qualifiers: string[] = [];
+		while (i < to && this._tokens[i].kind === 'ident' && QUALIFIERS.has(this._tokens[i].text)) {
+			const word = this._tokens[i].text;
+			const following = this._tokens[i + 1];
+			if (word === 'extern') {
+				if (following?.kind === 'literal') {
+					qualifiers.push(`extern ${following.text}`);
+					i += 2;
+				} else {
+					qualifiers.push('extern');
+					i++;
+				}
+				continue;
+			}
+			if (!following || following.kind !== 'ident' || !QUALIFIED_KEYWORDS.has(following.text)) {
+				// e.g. "const NAME: T" or "unsafe {" in statement position
+				break;
+			}
+			qualifiers.push(word);
+			i++;
+		}
+
+		const keyword = this._tokens[i];
+		if (!keyword || i >= to) {
+			return undefined;
+		}
+		const make = (kind: ItemKind, name: string, signatureEnd: number, endIndex: number): RustItem => ({
+			kind,
+			name,
+			visibility,
+			qualifiers,
+			attributes: [],
+			docs: '',
+			signature: normalizeSignature(this._text(start, signatureEnd)),
+			line: this._tokens[start].line,
+			endLine: this._tokens[Math.min(endIndex, this._tokens.length - 1)].line,
+			children: []
+		});
+
+		// extern "C" { ... } blocks and extern crate
+		if (qualifiers.length > 0 && qualifiers[qualifiers.length - 1].startsWith('extern')) {
+			if (this._is(i, '{')) {
+				const close = this._matching[i];
+				const item = make('externBlock', '', i, close);
+				item.children = this.parseItems(i + 1, close).items;
+				return { item, next: close + 1 };
+			}
+			if (this._isIdent(i, 'crate')) {
+				const end = this._findTopLevel(i, to, [';']);
+				return { item: make('externCrate', this._tokens[i + 1]?.text ?? '', end, end), next: end + 1 };
+			}
+		}
+
+		if (keyword.kind !== 'ident') {
+			return undefined;
+		}
+
+		switch (keyword.text) {
+			case 'fn': {
+				// The body is the first { outside the parameter list (signatures may contain where clauses, closures types, ...)
+				const end = this._findTopLevel(i, to, ['{', ';']);
+				const close = this._is(end, '{') ? this._matching[end] : end;
+				const item = make('fn', this._tokens[i + 1]?.text ?? '', end, close);
+				item.hasBody = this._is(end, '{');
+				return { item, next: close + 1 };
+			}
+			case 'struct':
+			case 'enum':
+			case 'union': {
+				// "union" is only a keyword before a name
+				if (keyword.text === 'union' && this._tokens[i + 1]?.kind !== 'ident') {
+					return undefined;
+				}
+				const end = this._findTopLevel(i, to, ['{', ';']);
+				const close = this._is(end, '{') ? this._matching[end] : end;
+				const item = make(keyword.text, this._tokens[i + 1]?.text ?? '', end, close);
+				if (this._is(end, '{')) {
+					item.children = this._parseMembers(end + 1, close, keyword.text === 'enum' ? 'variant' : 'field', true);
+				} else {
+					// Tuple struct: the fields are in parentheses after the name and generics
+					const open = this._is(i + 2, '<') ? this._angleEnd(i + 2, end) + 1 : i + 2;
+					if (this._is(open, '(') && this._matching[open] > open) {
+						item.children = this._parseMembers(open + 1, this._matching[open], 'field', false);
+					}
+				}
+				return { item, next: close + 1 + (this._is(close + 1, ';') ? 1 : 0) };
+			}
+			case 'trait':
+			case 'impl':
+			case 'mod': {
+				const end = this._findTopLevel(i, to, ['{', ';']);
+				const isBody = this._is(end, '{');
+				const close = isBody ? this._matching[end] : end;
+				const kind = keyword.text;
+				const item = make(kind, kind === 'impl' ? '' : this._tokens[i + 1]?.text ?? '', end, close);
+				if (isBody) {
+					const body = this.parseItems(end + 1, close);
+					item.children = body.items;
+					if (kind === 'mod') {
+						item.innerDocs = body.innerDocs;
+					}
+				}
+				if (kind === 'impl') {
+					item.impl = this._parseImplHeader(i + 1, end);
+				}
+				return { item, next: close + 1 };
+			}
+			case 'type':
+			case 'const':
+			case 'static':
+			case 'use': {
+				// Initializers may contain blocks; everything up to the top-level semicolon belongs to the item
+				const end = this._findTopLevel(i, to, [';'], true);
+				const nameIndex = keyword.text === 'static' && this._isIdent(i + 1, 'mut') ? i + 2 : i + 1;
+				const name = keyword.text === 'use' ? '' : this._tokens[nameIndex]?.text ?? '';
+				return { item: make(keyword.text, name, end, end), next: end + 1 };
+			}
+			case 'macro_rules': {
+				if (!this._is(i + 1, '!')) {
+					break;
+				}
+				const open = i + 3;
+				const close = this._matching[open] > open ? this._matching[open] : open;
+				return { item: make('macro', this._tokens[i + 2]?.text ?? '', i + 3, close), next: close + 1 + (this._is(close + 1, ';') ? 1 : 0) };
+			}
+		}
+
+		// Macro invocation in item position: path!(...), path![...] or path! { ... }
+		let pathEnd = i;
+		while (this._tokens[pathEnd]?.kind === 'ident' && this._is(pathEnd + 1, '::')) {
+			pathEnd += 2;
+		}
+		if (this._tokens[pathEnd]?.kind === 'ident' && this._is(pathEnd + 1, '!') && this._matching[pathEnd + 2] > pathEnd + 2) {
+			const close = this._matching[pathEnd + 2];
+			const item = make('macroCall', this._text(i, pathEnd + 1), pathEnd + 1, close);
+			return { item, next: close + 1 + (this._is(close + 1, ';') ? 1 : 0) };
+		}
+
+		return undefined;
+	}
+
+	// The comma-separated fields or enum variants between two token indices, each with its docs and attributes.
+	// Fields are named when written "name: Type", and by position in tuples
+	private _parseMembers(from: number, to: number, kind: 'field' | 'variant', named: boolean): RustItem[] {
+		const members: RustItem[] = [];
+		let docs: string[] = [];
+		let attributes: string[] = [];
+		let i = from;
+
+		while (i < to) {
+			const attribute = this._docOrAttribute(i);
+			if (attribute) {
+				if (attribute.docs !== undefined) {
+					docs.push(...attribute.docs.split('\n'));
+				} else {
+					attributes.push(attribute.attribute!);
+				}
+				i = attribute.next;
+				continue;
+			}
+
+			const end = this._memberEnd(i, to);
+			if (end > i) {
+				const member = kind === 'variant' ? this._parseVariant(i, end) : this._parseField(i, end, named ? undefined : String(members.length));
+				member.docs = unindent(docs);
+				member.attributes = attributes;
+				members.push(member);
+			}
+			docs = [];
+			attributes = [];
+			i = end + 1;
+		}
+		return members;
+	}
+
+	// Index of the comma ending the field or variant at start (or to): commas in groups, generic arguments and
+	// discriminant expressions do not count
+	private _memberEnd(start: number, to: number): number {
+		let angle = 0;
+		let discriminant = false;
+		for (let k = start; k < to; k++) {
+			if (this._matching[k] > k) {
+				k = this._matching[k];
+			} else if (this._is(k, '=') && angle === 0) {
+				discriminant = true;
+			} else if (this._is(k, '<') && !discriminant) {
+				angle++;
+			} else if (this._is(k, '>') && !discriminant) {
+				angle--;
+			} else if (this._is(k, ',') && angle <= 0) {
+				return k;
+			}
+		}
+		return to;
+	}
+
+	// "pub name: Type", or "pub Type" with the given position as name
+	private _parseField(start: number, end: number, position?: string): RustItem {
+		const { visibility, next } = this._parseVisibility(start);
+		const isNamed = position === undefined && this._tokens[next]?.kind === 'ident' && this._is(next + 1, ':');
+		return {
+			kind: 'field',
+			name: isNamed ? this._tokens[next].text : position ?? '',
+			visibility,
+			qualifiers: [],
+			attributes: [],
+			docs: '',
+			signature: normalizeSignature(this._text(start, end)),
+			line: this._tokens[start].line,
+			endLine: this._tokens[end - 1].line,
+			children: [],
+			fieldType: normalizeSignature(this._text(isNamed ? next + 2 : next, end))
+		};
+	}
+
+	// "Name", "Name(Type, ...)", "Name { field: Type, ... }" and "Name = discriminant"; the signature leaves out the
+	// docs and attributes of the fields
+	private _parseVariant(start: number, end: number): RustItem {
+		const name = this._tokens[start].text;
+		let children: RustItem[] = [];
+		let signature = name;
+		let i = start + 1;
+		if ((this._is(i, '(') || this._is(i, '{')) && this._matching[i] > i) {
+			const isTuple = this._is(i, '(');
+			children = this._parseMembers(i + 1, this._matching[i], 'field', !isTuple);
+			const fields = children.map(field => isTuple ? field.fieldType : field.signature).join(', ');
+			signature += isTuple ? `(${fields})` : fields ? ` { ${fields} }` : ' {}';
+			i = this._matching[i] + 1;
+		}
+		if (this._is(i, '=')) {
+			signature += ` = ${this._text(i + 1, end)}`;
+		}
+		return {
+			kind: 'variant',
+			name,
+			visibility: '',
+			qualifiers: [],
+			attributes: [],
+			docs: '',
+			signature,
+			line: this._tokens[start].line,
+			endLine: this._tokens[end - 1].line,
+			children
+		};
+	}
+
+	// Split "<T> Trait for Type where ..." (the tokens after "impl") into its parts
+	private _parseImplHeader(from: number, to: number): ImplInfo {
+		let i = from;
+		let generics = '';
+		if (this._is(i, '<')) {
+			const close = this._angleEnd(i, to);
+			generics = this._text(i, close + 1);
+			i = close + 1;
+		}
+
+		let whereIndex = to;
+		let forIndex = -1;
+		let angle = 0;
+		for (let k = i; k < to; k++) {
+			if (this._matching[k] > k) {
+				k = this._matching[k];
+				continue;
+			}
+			const token = this._tokens[k];
+			if (token.text === '<') {
+				angle++;
+			} else if (token.text === '>') {
+				angle--;
+			} else if (angle === 0 && token.kind === 'ident' && token.text === 'where') {
+				whereIndex = k;
+				break;
+			} else if (angle === 0 && token.kind === 'ident' && token.text === 'for' && !this._is(k + 1, '<') && forIndex < 0) {
+				forIndex = k;
+			}
+		}
+
+		const negative = forIndex >= 0 && this._is(i, '!');
+		const traitStart = negative ? i + 1 : i;
+		return {
+			generics,
+			traitName: forIndex >= 0 ? this._text(traitStart, forIndex) : undefined,
+			negative,
+			selfType: this._text(forIndex >= 0 ? forIndex + 1 : i, whereIndex),
+			whereClause: whereIndex < to ? this._text(whereIndex, to) : undefined
+		};
+	}
+
+	// Index of the ">" closing the "<" at index open (-> and => are separate tokens, so they never count)
+	private _angleEnd(open: number, to: number): number {
+		let depth = 0;
+		for (let k = open; k < to; k++) {
+			if (this._matching[k] > k) {
+				k = this._matching[k];
+				continue;
+			}
+			if (this._is(k, '<')) {
+				depth++;
+			} else if (this._is(k, '>')) {
+				depth--;
+				if (depth === 0) {
+					return k;
+				}
+			}
+		}
+		return to - 1;
+	}
+
+	// First of the given punctuation tokens outside any group (braces only count as groups when skipBraces is set)
+	private _findTopLevel(from: number, to: number, targets: string[], skipBraces: boolean = false): number {
+		for (let k = from; k < to; k++) {
+			const token = this._tokens[k];
+			if (token.kind === 'punct' && targets.includes(token.text)) {
+				return k;
+			}
+			if (this._matching[k] > k && (token.text !== '{' || skipBraces)) {
+				k = this._matching[k];
+			}
+		}
+		return to;
+	}
+
+	// #[doc = "..."] contents between the brackets, or undefined for other attributes
+	private _docAttribute(from: number, to: number): string | undefined {
+		if (to - from === 3 && this._isIdent(from, 'doc') && this._is(from + 1, '=') && this._tokens[from + 2].kind === 'literal') {
+			return stringLiteralValue(this._tokens[from + 2].text);
+		}
+		return undefined;
+	}
+
+	// Source text of tokens [from, to), with comments and line breaks collapsed to single spaces
+	private _text(from: number, to: number): string {
+		let text = '';
+		for (let k = from; k < to && k < this._tokens.length; k++) {
+			const token = this._tokens[k];
+			if (token.kind === 'outerDoc' || token.kind === 'innerDoc') {
+				continue;
+			}
+			if (text && k > from && token.start > this._tokens[k - 1].end) {
+				text += ' ';
+			}
+			text += token.kind === 'literal' ? token.text.replace(/\s+/g, ' ') : token.text;
+		}
+		return text;
+	}
+
+	private _is(index: number, punct: string): boolean {
+		const token = this._tokens[index];
+		return !!token && token.kind === 'punct' && token.text === punct;
+	}
+
+	private _isIdent(index: number, text: string): boolean {
+		const token = this._tokens[index];
+		return !!token && token.kind === 'ident' && token.text === text;
+	}
+}
+
+// "fn f( a: u8, ) -> T" -> "fn f(a: u8) -> T"
+function normalizeSignature(text: string): string {
+	return text
+		.replace(/([([])\s+/g, '$1')
+		.replace(/,?\s*([)\]])/g, '$1')
+		.trim();
+}
+
+// Parse the items of a Rust source file
+export function parseRustFile(source: string): ParsedFile {
+	const tokens = tokenize(source);
+	return new ItemParser(tokens).parseItems(0, tokens.length);
+}
+
+// Items whose span holds a line, outermost first. A line between an item and the one before it (its docs and
+// attributes) counts as the item's
+export function itemsAt(items: RustItem[], line: number, previousEnd = -1): RustItem[] {
+	for (const item of items) {
+		if (line > previousEnd && line <= item.endLine) {
+			return line >= item.line ? [item, ...itemsAt(item.children, line, item.line)] : [item];
+		}
+		previousEnd = item.endLine;
+	}
+	return [];
+}
+
+// Module page sections in rustdoc's order
+const MODULE_SECTIONS: [ItemKind, string][] = [
+	['use', 'Re-exports'],
+	['mod', 'Modules'],
+	['macro', 'Macros'],
+	['struct', 'Structs'],
+	['enum', 'Enums'],
+	['union', 'Unions'],
+	['trait', 'Traits'],
+	['fn', 'Functions'],
+	['type', 'Type Aliases'],
+	['const', 'Constants'],
+	['static', 'Statics']
+];
+
+export interface ModuleSection {
+	kind: ItemKind;
+	heading: string;
+	items: RustItem[];
+}
+
+// The items a module page lists, in sections by kind with empty ones left out. Functions of extern blocks are
+// module items too; private items other than imports are listed when showPrivate is set
+export function moduleSections(items: RustItem[], showPrivate: boolean): ModuleSection[] {
+	const moduleItems = items
+		.flatMap(item => item.kind === 'externBlock' ? item.children : [item])
+		.filter(item => item.visibility === 'pub'
+			|| (item.kind === 'macro' && item.attributes.includes('macro_export'))
+			|| (showPrivate && item.kind !== 'use'));
+	return MODULE_SECTIONS
+		.map(([kind, heading]) => ({ kind, heading, items: moduleItems.filter(item => item.kind === kind) }))
+		.filter(section => section.items.length > 0);
+}
+
+// A path imported by a use declaration and the name it is imported as ("*" for globs)
+export interface UsePath {
+	path: string;
+	name: string;
+}
+
+// Flatten the tree of a use declaration: "pub use a::{b::C, d as e, f::*}" -> a::b::C, a::d as e, a::f::*
+export function useTreePaths(signature: string): UsePath[] {
+	const tokens = signature.replace(/^.*?\buse\b/, '').match(/::|[{},*;]|(?:r#)?\w+/g) || [];
+	const paths: UsePath[] = [];
+	let i = 0;
+
+	// One tree below the path prefix, e.g. "b::C" or "{d as e, f::*}"
+	const parseTree = (prefix: string[]) => {
+		const segments = [...prefix];
+		while (i < tokens.length) {
+			const token = tokens[i++];
+			if (token === '::') {
+				continue;
+			}
+			if (token === '{') {
+				while (i < tokens.length && tokens[i] !== '}') {
+					parseTree(segments);
+					if (tokens[i] === ',') {
+						i++;
+					}
+				}
+				i++;
+				return;
+			}
+			if (!/^(?:(?:r#)?\w+|\*)$/.test(token)) {
+				return;
+			}
+			// "a::{self}" imports a itself
+			if (token !== 'self' || segments.length === 0) {
+				segments.push(token);
+			}
+			if (tokens[i] === '::') {
+				i++;
+				continue;
+			}
+			let name = segments[segments.length - 1];
+			if (tokens[i] === 'as' && tokens[i + 1]) {
+				name = tokens[i + 1];
+				i += 2;
+			}
+			paths.push({ path: segments.join('::'), name });
+			return;
+		}
+	};
+
+	parseTree([]);
+	return paths;
+}
+
+// Deprecation and stability of an item, from its attributes
+export interface ItemStability {
+	deprecated?: { since?: string; note?: string };
+	// Items of the standard library behind a feature gate
+	unstable?: { feature?: string };
+}
+
+// Value of a `key = "..."` argument in the arguments of an attribute
+function attributeArgument(args: string, key: string): string | undefined {
+	const match = new RegExp(`\\b${key}\\s*=\\s*(r#*"[\\s\\S]*?"#*|"(?:[^"\\\\]|\\\\.)*")`).exec(args);
+	return match ? stringLiteralValue(match[1]) : undefined;
+}
+
+// Read #[deprecated], #[deprecated = "note"], #[deprecated(since = "..", note = "..")] and #[unstable(feature = "..")]
+export function itemStability(attributes: string[]): ItemStability {
+	const stability: ItemStability = {};
+	for (const attribute of attributes) {
+		const deprecated = /^(?:rustc_)?deprecated\b\s*(.*)$/s.exec(attribute);
+		if (deprecated) {
+			const args = deprecated[1];
+			const note = args.startsWith('=') ? stringLiteralValue(args.substring(1).trim()) : attributeArgument(args, 'note') || attributeArgument(args, 'reason');
+			stability.deprecated = { since: attributeArgument(args, 'since'), note };
+			continue;
+		}
+		const unstable = /^unstable\s*\((.*)\)$/s.exec(attribute);
+		if (unstable) {
+			stability.unstable = { feature: attributeArgument(unstable[1], 'feature') };
+		}
+	}
+	return stability;
+}
+
+// How a method takes its receiver: "self" (also `mut self`, `self: Box<Self>`), "&self", "&mut self",
+// or "none" for associated functions such as constructors
+export function methodReceiver(signature: string): string {
+	const receiver = signature.match(/\(\s*(&\s*(?:'\w+\s+)?)?(mut\s+)?self\b(\s*:\s*&\s*(?:'\w+\s+)?(mut\s+)?)?/);
+	if (!receiver) {
+		return 'none';
+	}
+	const [, reference, mutable, typedReference, typedMutable] = receiver;
+	if (reference || typedReference) {
+		return reference && mutable || typedMutable ? '&mut self' : '&self';
+	}
+	return 'self';
+}
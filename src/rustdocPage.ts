@@ -0,0 +1,313 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, HTMLElement } from 'node-html-parser';
+import { docSectionOpen, doctestExample, DoctestTarget, escapeHtml, renderExampleToolbar } from './markdown';
+
+// Elements that must never reach the webview
+const DISALLOWED_TAGS = new Set([
+	'script', 'style', 'link', 'meta', 'iframe', 'object', 'embed', 'form', 'input', 'button', 'img',
+	'noscript', 'rustdoc-toolbar', 'rustdoc-search'
+]);
+
+// Attributes kept on sanitized elements (everything else, including event handlers, is dropped)
+const ALLOWED_ATTRIBUTES = new Set(['class', 'title', 'href', 'data-doc-path', 'data-doc-anchor']);
+
+// Rustdoc chrome that is meaningless inside the sidebar
+const CHROME_SELECTORS = ['.test-arrow', '.doc-anchor', 'a.anchor', '.rightside', 'summary.hideme', '#copy-path', '.tooltip'];
+
+// Sections on trait pages whose entries render like methods
+const MEMBER_SECTIONS = new Set([
+	'required-associated-types', 'provided-associated-types', 'required-associated-consts',
+	'provided-associated-consts', 'required-methods', 'provided-methods'
+]);
+
+export interface RustdocPage {
+	title: string;
+	content: string;
+}
+
+// Location of the page being rendered, used to resolve relative links
+interface LinkContext {
+	htmlPath: string;
+	docsRoot: string;
+}
+
+// Point a rustdoc link at another local page (opened in the sidebar), an external URL, or flatten it to text
+function rewriteLink(link: HTMLElement, context: LinkContext) {
+	const href = link.getAttribute('href') || '';
+	const className = link.getAttribute('class') || '';
+
+	if (/^https?:\/\//.test(href)) {
+		link.setAttributes({ href, class: className });
+		return;
+	}
+
+	const [relativePath, anchor = ''] = href.split('#');
+	const targetPath = relativePath ? path.resolve(path.dirname(context.htmlPath), decodeURIComponent(relativePath)) : context.htmlPath;
+	const docsRoot = path.resolve(context.docsRoot);
+	const isLocalPage = targetPath.startsWith(docsRoot + path.sep) &&
+		targetPath.endsWith('.html') &&
+		!targetPath.startsWith(path.join(docsRoot, 'src') + path.sep);
+
+	if (href && isLocalPage) {
+		link.setAttributes({
+			href: '#',
+			class: `doc-link ${className}`.trim(),
+			'data-doc-path': targetPath,
+			'data-doc-anchor': decodeURIComponent(anchor)
+		});
+	} else {
+		link.replaceWith(`<span class="${escapeHtml(className)}">${link.innerHTML}</span>`);
+	}
+}
+
+// Remove scripts, event handlers and rustdoc chrome from a subtree and rewrite its links (in place)
+function sanitizeElement(element: HTMLElement, context: LinkContext): HTMLElement {
+	for (const selector of CHROME_SELECTORS) {
+		for (const el of element.querySelectorAll(selector)) {
+			el.remove();
+		}
+	}
+
+	for (const el of element.querySelectorAll('*')) {
+		const tag = el.tagName?.toLowerCase();
+		if (tag && DISALLOWED_TAGS.has(tag)) {
+			el.remove();
+			continue;
+		}
+
+		for (const name of Object.keys(el.attributes)) {
+			if (!ALLOWED_ATTRIBUTES.has(name.toLowerCase())) {
+				el.removeAttribute(name);
+			}
+		}
+
+		if (tag === 'a') {
+			rewriteLink(el, context);
+		}
+	}
+	return element;
+}
+
+// Give the Rust examples of a sanitized docblock the example toolbar. Rustdoc marks ignored, panicking and
+// failing examples with a class on their wrapper, and has already dropped their hidden lines
+function addExampleToolbars(docblock: HTMLElement, doctest?: DoctestTarget): HTMLElement {
+	docblock.querySelectorAll('pre.rust-example-rendered').forEach((example, index) => {
+		const wrapper = example.parentNode;
+		const attributes = wrapper?.classList.contains('example-wrap') ? [...wrapper.classList.values()] : [];
+		example.insertAdjacentHTML('beforebegin', renderExampleToolbar(attributes, doctestExample(doctest, index)));
+	});
+	return docblock;
+}
+
+// Split a sanitized docblock at its top-level headings into collapsible sections, like rendered Markdown docs
+function addDocSections(docblock: HTMLElement): HTMLElement {
+	const headings = docblock.childNodes.filter((node): node is HTMLElement => node instanceof HTMLElement && /^H[1-6]$/.test(node.tagName));
+	const sectionTag = headings.map(heading => heading.tagName).sort()[0];
+	if (!sectionTag) {
+		return docblock;
+	}
+	const parts: string[] = [];
+	let isOpen = false;
+	for (const node of docblock.childNodes) {
+		if (node instanceof HTMLElement && node.tagName === sectionTag) {
+			parts.push(`${isOpen ? '</details>' : ''}${docSectionOpen(node.text)}<summary>${node.outerHTML}</summary>`);
+			isOpen = true;
+		} else {
+			parts.push(node.toString());
+		}
+	}
+	docblock.set_content(parts.join('') + (isOpen ? '</details>' : ''));
+	return docblock;
+}
+
+// A section of a rendered page (e.g. "Trait Implementations"), collapsible like the doc sections
+function pageSection(title: string, body: string): string {
+	return `${docSectionOpen(title)}<summary><h3>${title}</h3></summary>${body}</details>`;
+}
+
+// First paragraph of a docblock, used as a one-paragraph summary in member lists
+function docSummary(docblock: HTMLElement | null, context: LinkContext): string {
+	if (!docblock) {
+		return '';
+	}
+	sanitizeElement(docblock, context);
+	const paragraph = docblock.querySelector('p');
+	return paragraph ? paragraph.innerHTML : docblock.innerHTML;
+}
+
+// Render a method/associated item entry: its code header plus the first paragraph of its docs
+function renderMember(entry: HTMLElement, context: LinkContext): string {
+	const section = entry.tagName === 'SECTION' ? entry : entry.querySelector('section');
+	const header = section?.querySelector('.code-header');
+	if (!header) {
+		return '';
+	}
+	const docblock = entry.tagName === 'DETAILS' ? entry.querySelector('.docblock') : null;
+	const summary = docSummary(docblock, context);
+
+	const parts: string[] = [];
+	parts.push('<li>');
+	parts.push(`<code class="code-header">${sanitizeElement(header, context).innerHTML}</code>`);
+	if (summary) {
+		parts.push(`<div class="member-summary">${summary}</div>`);
+	}
+	parts.push('</li>');
+	return parts.join('');
+}
+
+// Render the direct member entries (details toggles or bare sections) of a container
+function renderMembers(container: HTMLElement | null, context: LinkContext): string {
+	if (!container) {
+		return '';
+	}
+	const items = container.childNodes
+		.filter((node): node is HTMLElement => node instanceof HTMLElement && (node.tagName === 'DETAILS' || node.tagName === 'SECTION'))
+		.map(node => renderMember(node, context))
+		.filter(item => item.length > 0);
+	return items.length > 0 ? `<ul class="rustdoc-members">${items.join('')}</ul>` : '';
+}
+
+// Render an implementations list ("impl Foo { .. }" blocks) with their member lists
+function renderImpls(list: HTMLElement, context: LinkContext, collapsed: boolean): string {
+	const parts: string[] = [];
+	for (const node of list.childNodes) {
+		if (!(node instanceof HTMLElement)) {
+			continue;
+		}
+
+		let section: HTMLElement | null = null;
+		let implItems: HTMLElement | null = null;
+		if (node.tagName === 'DETAILS') {
+			section = node.querySelector('summary > section.impl');
+			implItems = node.querySelector('.impl-items');
+		} else if (node.tagName === 'SECTION' && node.classList.contains('impl')) {
+			section = node;
+			const next = node.nextElementSibling;
+			implItems = next && next.classList.contains('impl-items') ? next : null;
+		}
+
+		const header = section?.querySelector('.code-header');
+		if (!header) {
+			continue;
+		}
+		const headerHtml = `<code class="code-header">${sanitizeElement(header, context).innerHTML}</code>`;
+		const members = renderMembers(implItems, context);
+
+		if (collapsed) {
+			parts.push(members ? `<details class="rustdoc-impl"><summary>${headerHtml}</summary>${members}</details>` : `<div class="rustdoc-impl">${headerHtml}</div>`);
+		} else {
+			parts.push(`<h4>${headerHtml}</h4>${members}`);
+		}
+	}
+	return parts.join('');
+}
+
+// Render a module's item table (structs, functions, ...) as a list of links with summaries
+function renderItemTable(table: HTMLElement, context: LinkContext): string {
+	sanitizeElement(table, context);
+	const parts: string[] = ['<ul class="rustdoc-members">'];
+	for (const term of table.querySelectorAll('dt')) {
+		const description = term.nextElementSibling?.tagName === 'DD' ? term.nextElementSibling.innerHTML : '';
+		parts.push(`<li><code>${term.innerHTML}</code>${description ? `<div class="member-summary">${description}</div>` : ''}</li>`);
+	}
+	parts.push('</ul>');
+	return parts.join('');
+}
+
+// Readable path of the page, e.g. "std::vec::Vec", from the breadcrumbs and main heading
+function pageTitle(main: HTMLElement): string {
+	const breadcrumbs = main.querySelector('.rustdoc-breadcrumbs')?.text.trim() ?? '';
+	const heading = main.querySelector('h1');
+	const name = heading?.querySelector('span')?.text.trim() ?? heading?.text.trim() ?? '';
+	return breadcrumbs ? `${breadcrumbs}::${name}` : name;
+}
+
+// Render one anchored item on a page (a method, field, variant or impl) with its full docs
+function renderAnchoredItem(main: HTMLElement, anchored: HTMLElement, context: LinkContext, doctest?: DoctestTarget): string {
+	// Documented items sit in the <summary> of their own toggle; undocumented ones are bare sections
+	const toggle = anchored.closest('summary')?.parentNode;
+	const header = anchored.querySelector('.code-header') || anchored;
+	const docblock = toggle ? toggle.querySelector('.docblock') : anchored.nextElementSibling;
+
+	const parts: string[] = [];
+	parts.push(`<pre class="item-decl"><code>${sanitizeElement(header, context).innerHTML}</code></pre>`);
+	if (docblock && docblock.classList.contains('docblock')) {
+		parts.push(`<div class="docblock">${addDocSections(addExampleToolbars(sanitizeElement(docblock, context), doctest)).innerHTML}</div>`);
+	}
+
+	// Link back to the page the item lives on
+	const parentName = main.querySelector('h1')?.querySelector('span')?.text.trim();
+	if (parentName) {
+		parts.push(`<p>Defined on <a href="#" class="doc-link" data-doc-path="${escapeHtml(context.htmlPath)}" data-doc-anchor=""><code>${escapeHtml(parentName)}</code></a></p>`);
+	}
+	return parts.join('');
+}
+
+// Render a whole page: declaration, docblock, methods, trait impls and module item tables
+function renderFullPage(main: HTMLElement, context: LinkContext, doctest?: DoctestTarget): string {
+	const parts: string[] = [];
+
+	const declaration = main.querySelector('pre.item-decl');
+	if (declaration) {
+		sanitizeElement(declaration, context);
+		parts.push(`<pre class="item-decl"><code>${declaration.querySelector('code')?.innerHTML ?? declaration.innerHTML}</code></pre>`);
+	}
+
+	// Stability notes on the item itself are direct children of the main content
+	const itemInfo = main.childNodes.find((node): node is HTMLElement => node instanceof HTMLElement && node.classList.contains('item-info'));
+	if (itemInfo) {
+		parts.push(`<div class="item-info">${sanitizeElement(itemInfo, context).innerHTML}</div>`);
+	}
+
+	const docblock = main.querySelector('details.top-doc .docblock');
+	if (docblock) {
+		parts.push(`<div class="docblock">${addDocSections(addExampleToolbars(sanitizeElement(docblock, context), doctest)).innerHTML}</div>`);
+	}
+
+	for (const heading of main.querySelectorAll('h2.section-header')) {
+		const id = heading.getAttribute('id') || '';
+		const title = heading.text.replace('§', '').trim();
+		const next = heading.nextElementSibling;
+
+		if (id === 'implementations') {
+			const list = main.querySelector('#implementations-list');
+			if (list) {
+				parts.push(pageSection(title, renderImpls(list, context, false)));
+			}
+		} else if (id === 'trait-implementations') {
+			const list = main.querySelector('#trait-implementations-list');
+			if (list) {
+				parts.push(pageSection(title, renderImpls(list, context, true)));
+			}
+		} else if (MEMBER_SECTIONS.has(id) && next?.classList.contains('methods')) {
+			parts.push(pageSection(title, renderMembers(next, context)));
+		} else if (next?.tagName === 'DL' && next.classList.contains('item-table')) {
+			parts.push(pageSection(title, renderItemTable(next, context)));
+		}
+	}
+
+	return parts.join('');
+}
+
+// Render a local rustdoc page (or one anchored item on it) as sidebar HTML.
+// doctest names the doctests of the rendered item's docs, for workspace items whose examples can be run
+export async function renderRustdocPage(htmlPath: string, docsRoot: string, anchor?: string, doctest?: DoctestTarget): Promise<RustdocPage> {
+	const source = await fs.promises.readFile(htmlPath, 'utf8');
+	const root = parse(source, { blockTextElements: { script: true, style: true } });
+	const main = root.querySelector('#main-content');
+	if (!main) {
+		return { title: path.basename(htmlPath), content: '<p>Unrecognized rustdoc page</p>' };
+	}
+
+	const context: LinkContext = { htmlPath, docsRoot };
+	const title = pageTitle(main);
+	const anchored = anchor ? main.querySelector(`[id="${anchor.replace(/"/g, '')}"]`) : null;
+
+	if (anchored && anchor) {
+		// "method.as_mut-1" -> "as_mut" (rustdoc disambiguates repeated anchors with a numeric suffix)
+		const memberName = anchor.substring(anchor.lastIndexOf('.') + 1).replace(/-\d+$/, '');
+		return { title: `${title}::${memberName}`, content: renderAnchoredItem(main, anchored, context, doctest) };
+	}
+	return { title, content: renderFullPage(main, context, doctest) };
+}
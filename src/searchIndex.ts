@@ -0,0 +1,488 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Item kinds in the order rustdoc encodes them in search-index.js
+const ITEM_TYPES = [
+	'keyword', 'primitive', 'mod', 'externcrate', 'import', 'struct', 'enum', 'fn', 'type', 'static',
+	'trait', 'impl', 'tymethod', 'method', 'structfield', 'variant', 'macro', 'associatedtype', 'constant',
+	'associatedconstant', 'union', 'foreigntype', 'existential', 'attr', 'derive', 'traitalias', 'generic'
+];
+
+const MAX_SEARCH_RESULTS = 50;
+
+export interface SearchIndexItem {
+	crate: string;
+	name: string;
+	kind: string;
+	modulePath: string;
+	parent?: { kind: string; name: string };
+	desc: string;
+}
+
+export interface SearchResult {
+	item: SearchIndexItem;
+	fullPath: string;
+	url: string;
+	score: number;
+}
+
+// One crate's corpus in search-index.js as rustdoc writes it; the layout of some fields changed between versions
+interface RawCrateCorpus {
+	// Item names, "" repeating the previous one
+	n?: string[];
+	// Item kinds as indices into ITEM_TYPES: one character per item ('A' is 0), or an array
+	t?: string | number[];
+	// Descriptions aligned with the names (before rustdoc 1.78)
+	d?: unknown;
+	// Rustdoc 1.78 and later keep the descriptions in search.desc/ shards: the number in each shard (VLQ hex),
+	// and the items that have none as a base64 Roaring bitmap (bit 0 is the crate, bit i + 1 item i)
+	D?: string;
+	e?: string;
+	// Module paths: [item index, path] where the path changes, or an array aligned with the names
+	q?: Array<[number, string] | string | null>;
+	// Parent types as [kind index, name, ...]
+	p?: Array<[number, string, ...unknown[]]>;
+	// 1-based parent of each item, 0 for none: VLQ hex encoded, or an array
+	i?: string | number[];
+}
+
+// Decoder for rustdoc's VLQ hex encoding (used for parent indices in newer search indexes)
+export class VlqHexDecoder {
+	private offset = 0;
+	private backrefQueue: number[] = [];
+
+	constructor(private readonly text: string) {}
+
+	next(): number {
+		const c = this.text.charCodeAt(this.offset);
+		// Sixteen characters after '0' are back references to recently decoded values
+		if (c >= 48 && c < 64) {
+			this.offset++;
+			return this.backrefQueue[c - 48];
+		}
+		// '`' encodes zero without a back reference
+		if (c === 96) {
+			this.offset++;
+			return 0;
+		}
+		const result = this.decode();
+		this.backrefQueue.unshift(result);
+		if (this.backrefQueue.length > 16) {
+			this.backrefQueue.pop();
+		}
+		return result;
+	}
+
+	private decode(): number {
+		let n = 0;
+		let c = this.text.charCodeAt(this.offset);
+		while (c < 96) {
+			n = (n << 4) | (c & 0xF);
+			this.offset++;
+			c = this.text.charCodeAt(this.offset);
+		}
+		n = (n << 4) | (c & 0xF);
+		this.offset++;
+		return (n & 1) ? -(n >> 1) : n >> 1;
+	}
+}
+
+// Set of indices as rustdoc encodes them in search-index.js: a Roaring bitmap in its portable serialization
+class RoaringBitmap {
+	private readonly containers = new Map<number, (value: number) => boolean>();
+
+	constructor(base64: string) {
+		const bytes = Buffer.from(base64, 'base64');
+		if (bytes.length === 0) {
+			return;
+		}
+		const u16 = (offset: number) => bytes.readUInt16LE(offset);
+		// The cookie tells whether run containers may follow, flagged in a bitset
+		const hasRuns = u16(0) === 12347;
+		const size = hasRuns ? u16(2) + 1 : bytes.readUInt32LE(4);
+		let i = hasRuns ? 4 : 8;
+		const runFlags = hasRuns ? bytes.subarray(i, i + Math.ceil(size / 8)) : undefined;
+		i += runFlags ? runFlags.length : 0;
+
+		const keys: number[] = [];
+		const cardinalities: number[] = [];
+		for (let j = 0; j < size; j++) {
+			keys.push(u16(i));
+			cardinalities.push(u16(i + 2) + 1);
+			i += 4;
+		}
+		// Container offsets; the containers follow in order anyway
+		if (!hasRuns || size >= 4) {
+			i += size * 4;
+		}
+
+		for (let j = 0; j < size; j++) {
+			const start = i;
+			if (runFlags && runFlags[j >> 3] & (1 << (j & 7))) {
+				// Runs of [first value, length - 1]
+				const end = start + 2 + u16(start) * 4;
+				this.containers.set(keys[j], value => {
+					for (let run = start + 2; run < end; run += 4) {
+						if (value >= u16(run) && value <= u16(run) + u16(run + 2)) {
+							return true;
+						}
+					}
+					return false;
+				});
+				i = end;
+			} else if (cardinalities[j] >= 4096) {
+				// A bitset of all 65536 values
+				this.containers.set(keys[j], value => (bytes[start + (value >> 3)] & (1 << (value & 7))) !== 0);
+				i += 8192;
+			} else {
+				// Sorted values
+				const end = start + cardinalities[j] * 2;
+				this.containers.set(keys[j], value => {
+					for (let entry = start; entry < end; entry += 2) {
+						if (u16(entry) === value) {
+							return true;
+						}
+					}
+					return false;
+				});
+				i = end;
+			}
+		}
+	}
+
+	contains(value: number): boolean {
+		const container = this.containers.get(value >>> 16);
+		return !!container && container(value & 0xFFFF);
+	}
+}
+
+// Undo the escaping of a single-quoted JavaScript string literal
+function unescapeJsString(text: string): string {
+	return text.replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/gs, (_match, esc: string) => {
+		switch (esc[0]) {
+			case 'n': return '\n';
+			case 'r': return '\r';
+			case 't': return '\t';
+			// Line continuation, as rustdoc writes between crates
+			case '\n': return '';
+			case 'u':
+			case 'x':
+				return esc.length > 1 ? String.fromCharCode(parseInt(esc.substring(1), 16)) : esc;
+			default: return esc;
+		}
+	});
+}
+
+// Extract the JSON payload from a search-index.js file (both the Map and the older object layout)
+function parseSearchIndexScript(script: string): Array<[string, RawCrateCorpus]> {
+	const match = script.match(/JSON\.parse\('((?:[^'\\]|\\.)*)'\)/s);
+	if (!match) {
+		throw new Error('Unrecognized search-index.js format');
+	}
+	const parsed = JSON.parse(unescapeJsString(match[1]));
+	return Array.isArray(parsed) ? parsed : Object.entries(parsed);
+}
+
+// Descriptions of a crate's items from its search.desc/ shards (rustdoc 1.78 and later): the non-empty ones in item
+// order, the crate's own first. Each shard is a script passing its descriptions, one per line, to loadedDescShard
+async function loadDescriptionShards(docsRoot: string, crate: string): Promise<string[]> {
+	const dir = path.join(docsRoot, 'search.desc', crate);
+	const shards = new Map<number, string[]>();
+	for (const entry of await fs.promises.readdir(dir)) {
+		const shard = entry.startsWith(`${crate}-desc-`) ? /-desc-(\d+)-[^/]*\.js$/.exec(entry) : null;
+		if (!shard) {
+			continue;
+		}
+		const script = await fs.promises.readFile(path.join(dir, entry), 'utf8');
+		const match = script.match(/loadedDescShard\([^,]*,\s*\d+\s*,\s*(['"])((?:(?!\1)[^\\]|\\.)*)\1\s*\)/s);
+		if (!match) {
+			throw new Error(`Unrecognized description shard ${entry}`);
+		}
+		shards.set(Number(shard[1]), unescapeJsString(match[2]).split('\n'));
+	}
+	return [...shards.keys()].sort((a, b) => a - b).flatMap(shard => shards.get(shard)!);
+}
+
+// Expand one crate's compressed corpus into flat items. Newer corpora take their descriptions from shardedDescs,
+// as loaded by loadDescriptionShards
+export function decodeCrateCorpus(crate: string, corpus: RawCrateCorpus, shardedDescs?: string[]): SearchIndexItem[] {
+	const names = corpus.n || [];
+	const types = corpus.t || [];
+	const descs = Array.isArray(corpus.d) ? corpus.d as string[] : undefined;
+	const emptyDescs = shardedDescs && new RoaringBitmap(corpus.e || '');
+	let shardedIndex = emptyDescs && !emptyDescs.contains(0) ? 1 : 0;
+
+	// "q" is either a list of [index, path] changes or an array aligned with names
+	const itemPaths = new Map<number, string>();
+	if (Array.isArray(corpus.q)) {
+		corpus.q.forEach((entry, i) => {
+			if (Array.isArray(entry)) {
+				itemPaths.set(entry[0], entry[1]);
+			} else if (entry) {
+				itemPaths.set(i, entry);
+			}
+		});
+	}
+
+	const parents: Array<{ kind: string; name: string }> = (corpus.p || []).map(elem => ({
+		kind: ITEM_TYPES[elem[0]] || 'unknown',
+		name: elem[1]
+	}));
+
+	const parentDecoder = typeof corpus.i === 'string' ? new VlqHexDecoder(corpus.i) : undefined;
+
+	const items: SearchIndexItem[] = [];
+	let lastName = '';
+	let lastPath = '';
+	for (let i = 0; i < names.length; i++) {
+		const name = names[i] === '' ? lastName : names[i];
+		const modulePath = itemPaths.get(i) ?? lastPath;
+		const typeIndex = typeof types === 'string' ? types.charCodeAt(i) - 65 : types[i];
+		const parentIndex = parentDecoder ? parentDecoder.next() : ((corpus.i as number[] | undefined)?.[i] ?? 0);
+		let desc = descs?.[i] || '';
+		if (emptyDescs && !emptyDescs.contains(i + 1)) {
+			desc = shardedDescs![shardedIndex++] || '';
+		}
+
+		items.push({
+			crate,
+			name,
+			kind: ITEM_TYPES[typeIndex] || 'unknown',
+			modulePath,
+			parent: parentIndex > 0 ? parents[parentIndex - 1] : undefined,
+			desc
+		});
+
+		lastName = name;
+		lastPath = modulePath;
+	}
+	return items;
+}
+
+// Display path of an item, e.g. "std::vec::Vec::retain"
+export function itemFullPath(item: SearchIndexItem): string {
+	if (item.kind === 'primitive' || item.kind === 'keyword') {
+		return item.name;
+	}
+	if (item.parent) {
+		if (item.parent.kind === 'primitive') {
+			return `${item.parent.name}::${item.name}`;
+		}
+		return `${item.modulePath}::${item.parent.name}::${item.name}`;
+	}
+	return item.modulePath ? `${item.modulePath}::${item.name}` : item.name;
+}
+
+// Page URL of an item relative to the documentation root, mirroring rustdoc's own search
+export function itemUrl(item: SearchIndexItem): string {
+	const dir = item.modulePath.replace(/::/g, '/');
+	switch (item.kind) {
+		case 'mod':
+			return `${dir}/${item.name}/index.html`;
+		case 'import':
+			return `${dir}/index.html#reexport.${item.name}`;
+		case 'primitive':
+		case 'keyword':
+			return `${dir}/${item.kind}.${item.name}.html`;
+		case 'externcrate':
+			return `${item.name}/index.html`;
+	}
+	if (item.parent) {
+		let pagePath = dir;
+		let pageKind = item.parent.kind;
+		let pageName = item.parent.name;
+		let anchor = `${item.kind}.${item.name}`;
+		if (item.kind === 'structfield' && item.parent.kind === 'variant') {
+			const enumNameIndex = item.modulePath.lastIndexOf('::');
+			pagePath = item.modulePath.substring(0, enumNameIndex).replace(/::/g, '/');
+			pageKind = 'enum';
+			pageName = item.modulePath.substring(enumNameIndex + 2);
+			anchor = `variant.${item.parent.name}.field.${item.name}`;
+		}
+		return `${pagePath}/${pageKind}.${pageName}.html#${anchor}`;
+	}
+	return `${dir}/${item.kind}.${item.name}.html`;
+}
+
+// Score how well a query segment matches a candidate name; -1 means no match
+export function fuzzyScore(query: string, candidate: string): number {
+	if (candidate === query) {
+		return 1000;
+	}
+	if (candidate.startsWith(query)) {
+		return 800 - (candidate.length - query.length);
+	}
+	const index = candidate.indexOf(query);
+	if (index >= 0) {
+		return 600 - index - (candidate.length - query.length);
+	}
+
+	// Subsequence match, penalized by the gaps between matched characters
+	let gaps = 0;
+	let last = -1;
+	for (const ch of query) {
+		const next = candidate.indexOf(ch, last + 1);
+		if (next < 0) {
+			return -1;
+		}
+		if (last >= 0) {
+			gaps += next - last - 1;
+		}
+		last = next;
+	}
+	return 300 - gaps * 5 - (candidate.length - query.length);
+}
+
+// Rank of a crate when the same item is documented in several of them (std re-exports core and alloc)
+function crateRank(crate: string): number {
+	return ['std', 'core', 'alloc'].indexOf(crate) >>> 0;
+}
+
+export class RustdocSearchIndex {
+	constructor(public readonly docsRoot: string, public readonly items: SearchIndexItem[]) {}
+
+	// Return ranked fuzzy matches for queries like "retain", "Vec::retain" or "std::collections::HashMap"
+	public search(query: string, limit: number = MAX_SEARCH_RESULTS): SearchResult[] {
+		const segments = query.toLowerCase().split(/::|\s+/).map(s => s.trim()).filter(s => s.length > 0);
+		if (segments.length === 0) {
+			return [];
+		}
+
+		const nameQuery = segments[segments.length - 1];
+		const pathQueries = segments.slice(0, -1);
+		const results: SearchResult[] = [];
+
+		for (const item of this.items) {
+			if (item.kind === 'impl' || item.kind === 'generic' || item.kind === 'import') {
+				continue;
+			}
+
+			const nameScore = fuzzyScore(nameQuery, item.name.toLowerCase());
+			if (nameScore < 0) {
+				continue;
+			}
+
+			const fullPath = itemFullPath(item);
+			let score = nameScore;
+
+			// Every leading segment must match some earlier component of the path
+			if (pathQueries.length > 0) {
+				const components = fullPath.toLowerCase().split('::').slice(0, -1);
+				let matchedAll = true;
+				for (const pathQuery of pathQueries) {
+					let best = -1;
+					for (const component of components) {
+						best = Math.max(best, fuzzyScore(pathQuery, component));
+					}
+					if (best < 0) {
+						matchedAll = false;
+						break;
+					}
+					score += best / 2;
+				}
+				if (!matchedAll) {
+					continue;
+				}
+			}
+
+			// Prefer shallow paths and std over its implementation crates
+			score -= fullPath.split('::').length * 2;
+			if (item.crate === 'std') {
+				score += 5;
+			}
+
+			results.push({ item, fullPath, url: itemUrl(item), score });
+		}
+
+		results.sort((a, b) => b.score - a.score || a.fullPath.length - b.fullPath.length);
+
+		// The same item is often re-exported under several crates (core, alloc, std)
+		const seen = new Set<string>();
+		const unique: SearchResult[] = [];
+		for (const result of results) {
+			const key = `${result.item.kind}:${result.fullPath.split('::').slice(1).join('::')}`;
+			if (seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+			unique.push(result);
+			if (unique.length >= limit) {
+				break;
+			}
+		}
+		return unique;
+	}
+
+	// Find the item a name most likely refers to: exact (case-sensitive) name, optionally on a given parent type or in a given crate
+	public lookup(name: string, parentName?: string, crate?: string): SearchResult | undefined {
+		let best: SearchIndexItem | undefined;
+
+		for (const item of this.items) {
+			if (item.name !== name || item.kind === 'import' || item.kind === 'impl' || (crate && item.crate !== crate)) {
+				continue;
+			}
+			if (parentName ? item.parent?.name !== parentName : item.parent !== undefined) {
+				continue;
+			}
+			if (!best || crateRank(item.crate) < crateRank(best.crate)) {
+				best = item;
+			}
+		}
+
+		return best ? { item: best, fullPath: itemFullPath(best), url: itemUrl(best), score: 0 } : undefined;
+	}
+
+	// Find the item an absolute or partial path refers to, e.g. "std::time::Duration", "Duration::checked_add" or "u8"
+	public lookupPath(itemPath: string, kind?: string): SearchResult | undefined {
+		const name = itemPath.substring(itemPath.lastIndexOf(':') + 1);
+		let best: SearchResult | undefined;
+
+		for (const item of this.items) {
+			if (item.name !== name || item.kind === 'import' || item.kind === 'impl' || (kind && item.kind !== kind)) {
+				continue;
+			}
+			const fullPath = itemFullPath(item);
+			if (fullPath !== itemPath && !fullPath.endsWith(`::${itemPath}`)) {
+				continue;
+			}
+			const rank = crateRank(item.crate) - crateRank(best?.item.crate ?? '');
+			if (!best || rank < 0 || (rank === 0 && fullPath.length < best.fullPath.length)) {
+				best = { item, fullPath, url: itemUrl(item), score: 0 };
+			}
+		}
+		return best;
+	}
+}
+
+const searchIndexCache = new Map<string, { indexPath: string; mtime: number; index: Promise<RustdocSearchIndex> }>();
+
+// Load and decode the search-index*.js under a rustdoc output directory.
+// Cached per directory until the file changes, as it does when `cargo doc` runs again.
+export async function loadSearchIndex(docsRoot: string): Promise<RustdocSearchIndex> {
+	const entries = await fs.promises.readdir(docsRoot);
+	const indexFile = entries.find(entry => /^search-index.*\.js$/.test(entry));
+	if (!indexFile) {
+		throw new Error(`No search-index.js found in ${docsRoot}`);
+	}
+	const indexPath = path.join(docsRoot, indexFile);
+	const mtime = (await fs.promises.stat(indexPath)).mtimeMs;
+
+	const cached = searchIndexCache.get(docsRoot);
+	if (cached && cached.indexPath === indexPath && cached.mtime === mtime) {
+		return cached.index;
+	}
+
+	const index = (async () => {
+		const script = await fs.promises.readFile(indexPath, 'utf8');
+		const items: SearchIndexItem[] = [];
+		for (const [crate, corpus] of parseSearchIndexScript(script)) {
+			const shardedDescs = corpus.D !== undefined ? await loadDescriptionShards(docsRoot, crate) : undefined;
+			items.push(...decodeCrateCorpus(crate, corpus, shardedDescs));
+		}
+		return new RustdocSearchIndex(docsRoot, items);
+	})();
+	// Allow a retry after failures
+	index.catch(() => searchIndexCache.delete(docsRoot));
+	searchIndexCache.set(docsRoot, { indexPath, mtime, index });
+	return index;
+}
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findPackage, parseCargoMetadata } from '../cargoMetadata';
+
+// `cargo metadata` of a workspace with a binary, a path dependency with default features and a registry dependency
+const FIXTURE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'cargo-metadata.json');
+const REGISTRY = '/home/dev/.cargo/registry/src/index.crates.io-6f17d22bba15001f';
+
+suite('Cargo Metadata', () => {
+	const graph = parseCargoMetadata(fs.readFileSync(FIXTURE, 'utf8'));
+
+	test('reads packages with their versions and crate names', () => {
+		assert.strictEqual(graph.workspaceRoot, '/home/dev/project');
+		assert.strictEqual(graph.targetDirectory, '/home/dev/project/target');
+		assert.deepStrictEqual(graph.packages.map(pkg => [pkg.name, pkg.crateName, pkg.version, pkg.isWorkspaceMember]), [
+			['bytes', 'bytes', '1.10.1', false],
+			['my-app', 'my_app', '0.1.0', true],
+			['util', 'util', '0.2.0', true]
+		]);
+	});
+
+	test('takes source roots from library and binary targets only', () => {
+		const [bytes, app] = graph.packages;
+		assert.deepStrictEqual(bytes.sourceRoots, [`${REGISTRY}/bytes-1.10.1/src`]);
+		assert.strictEqual(bytes.libPath, `${REGISTRY}/bytes-1.10.1/src/lib.rs`);
+		assert.deepStrictEqual(app.sourceRoots, ['/home/dev/project/app/src']);
+		assert.strictEqual(app.libPath, undefined);
+	});
+
+	test('reads enabled features and dependencies from the resolve graph', () => {
+		const [bytes, app, util] = graph.packages;
+		assert.deepStrictEqual(util.features, ['default', 'fast']);
+		assert.deepStrictEqual(bytes.features, []);
+		assert.deepStrictEqual(app.dependencies, [bytes.id, util.id]);
+	});
+
+	test('finds the package containing a file', () => {
+		assert.strictEqual(findPackage(graph, `${REGISTRY}/bytes-1.10.1/src/buf/chain.rs`)?.name, 'bytes');
+		assert.strictEqual(findPackage(graph, '/home/dev/project/util/src/lib.rs')?.name, 'util');
+		assert.strictEqual(findPackage(graph, '/home/dev/project/utilities/src/lib.rs'), undefined);
+	});
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { cfgPredicate, evaluateCfg, parseCfgOutput } from '../cfg';
+
+suite('Cfg Predicates', () => {
+	const host = parseCfgOutput('debug_assertions\npanic="unwind"\ntarget_feature="sse"\ntarget_feature="sse2"\ntarget_os="linux"\nunix\n');
+	const options = { ...host, features: new Set(['default', 'std']) };
+
+	test('reads the options rustc prints', () => {
+		assert.deepStrictEqual([...host.names], ['debug_assertions', 'unix']);
+		assert.deepStrictEqual([...host.values.get('target_feature')!], ['sse', 'sse2']);
+	});
+
+	test('evaluates names, values and features', () => {
+		assert.strictEqual(evaluateCfg('unix', options), true);
+		assert.strictEqual(evaluateCfg('test', options), false);
+		assert.strictEqual(evaluateCfg('target_os = "windows"', options), false);
+		assert.strictEqual(evaluateCfg('feature = "std"', options), true);
+		assert.strictEqual(evaluateCfg('all(unix, not(feature = "serde"), any(target_feature = "sse2", windows))', options), true);
+	});
+
+	test('leaves features of unknown packages and unparsable predicates undecided', () => {
+		assert.strictEqual(evaluateCfg('feature = "std"', host), undefined);
+		assert.strictEqual(evaluateCfg('not(feature = "std")', host), undefined);
+		assert.strictEqual(evaluateCfg('all(test, feature = "std")', host), false);
+		assert.strictEqual(evaluateCfg('any(unix, feature = "std")', host), true);
+		assert.strictEqual(evaluateCfg('all(unix', options), undefined);
+	});
+
+	test('joins the cfg attributes of an item', () => {
+		assert.strictEqual(cfgPredicate(['inline', 'cfg(unix)']), 'unix');
+		assert.strictEqual(cfgPredicate(['cfg(unix)', 'cfg_attr(docsrs, doc(cfg(unix)))', 'cfg(feature = "std")']), 'all(unix, feature = "std")');
+		assert.strictEqual(cfgPredicate(['derive(Debug)']), undefined);
+	});
+});
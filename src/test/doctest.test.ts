@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { doctestFilter, parseDoctestOutput } from '../doctest';
+
+suite('Doctest Runner', () => {
+	test('reads passed and failed counts from the test result', () => {
+		const passed = parseDoctestOutput('running 2 tests\ntest result: ok. 2 passed; 0 failed; 0 ignored; 0 measured; 1 filtered out', true);
+		assert.deepStrictEqual([passed.status, passed.summary], ['passed', '2 passed; 0 failed']);
+		const failed = parseDoctestOutput('test result: FAILED. 1 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out', false);
+		assert.deepStrictEqual([failed.status, failed.summary], ['failed', '1 passed; 1 failed']);
+	});
+
+	test('reports filters that match no doctest', () => {
+		const result = parseDoctestOutput('test result: ok. 0 passed; 0 failed; 0 ignored; 0 measured; 3 filtered out', true);
+		assert.strictEqual(result.status, 'notFound');
+	});
+
+	test('filters on the one example that was run', () => {
+		const names = [
+			'src/lib.rs - Foo::new (line 10)',
+			'src/lib.rs - Foo::new (line 100)',
+			'src/lib.rs - Foo::new (line 18)',
+			'src/lib.rs - Foo::new_with (line 30)',
+			'src/lib.rs - inner::Foo::new (line 10)'
+		];
+		assert.deepStrictEqual(names.filter(name => name.includes(doctestFilter('Foo::new', 10))), ['src/lib.rs - Foo::new (line 10)']);
+		assert.deepStrictEqual(names.filter(name => name.includes(doctestFilter('Foo::new_with', 30))), ['src/lib.rs - Foo::new_with (line 30)']);
+	});
+
+	test('reports build failures without a test result', () => {
+		const result = parseDoctestOutput('error[E0425]: cannot find value `x` in this scope', false);
+		assert.deepStrictEqual([result.status, result.summary], ['failed', 'Build failed']);
+	});
+});
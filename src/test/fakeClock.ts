@@ -0,0 +1,44 @@
+// Stands in for setTimeout and clearTimeout while installed: timers run only when a test moves the clock forward
+export class FakeClock {
+	private _now = 0;
+	private _nextId = 1;
+	private readonly _timers = new Map<number, { at: number; callback: () => unknown }>();
+	private readonly _setTimeout = global.setTimeout;
+	private readonly _clearTimeout = global.clearTimeout;
+
+	constructor() {
+		global.setTimeout = ((callback: () => unknown, delay: number = 0) => {
+			const id = this._nextId++;
+			this._timers.set(id, { at: this._now + delay, callback });
+			return id;
+		}) as unknown as typeof setTimeout;
+		global.clearTimeout = ((id: number) => {
+			this._timers.delete(id);
+		}) as unknown as typeof clearTimeout;
+	}
+
+	// Timers that have not run or been cleared
+	public get pending(): number {
+		return this._timers.size;
+	}
+
+	// Move the clock forward, running the timers that come due in order and waiting for those that return promises
+	public async tick(milliseconds: number) {
+		const end = this._now + milliseconds;
+		for (;;) {
+			const due = [...this._timers].filter(([, timer]) => timer.at <= end).sort((a, b) => a[1].at - b[1].at)[0];
+			if (!due) {
+				break;
+			}
+			this._timers.delete(due[0]);
+			this._now = due[1].at;
+			await due[1].callback();
+		}
+		this._now = end;
+	}
+
+	public uninstall() {
+		global.setTimeout = this._setTimeout;
+		global.clearTimeout = this._clearTimeout;
+	}
+}
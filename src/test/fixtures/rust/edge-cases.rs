@@ -0,0 +1,154 @@
+//! Crate docs written as inner line comments.
+/*! And as an inner block comment. */
+
+#![allow(dead_code)]
+
+/**
+ * A type documented with a block comment.
+ *
+ * The ` * ` decoration is not part of the docs.
+ */
+#[derive(Debug, Clone)]
+pub struct Wrapper<'a, T: ?Sized + 'a> {
+    /// Field docs are not item docs.
+    inner: &'a T,
+}
+
+/** Single-line block docs. */
+pub(crate) struct Unit;
+
+/***  Three stars: a plain comment, not docs. */
+/**/
+pub struct Tuple(pub u8, pub(crate) String);
+
+//// Four slashes: a plain comment, not docs.
+#[doc = "Docs from an attribute,\nspanning \"two\" lines."]
+#[doc = r#"And a raw "string" line."#]
+pub enum Kind {
+    A,
+    B { x: u8 },
+}
+
+/* A block comment /* with a nested comment */ mentioning fn hidden() {} */
+
+// fn commented_out() {}
+const TEXT: &str = "impl Fake for Nothing { fn not_a_method() {} }";
+const RAW: &str = r##"fn raw_string() { "# }"##;
+static mut COUNTER: u32 = { 1 + 1 };
+const CHARS: [char; 4] = ['{', '}', '\'', '"'];
+
+impl<'a, T: ?Sized + 'a> Wrapper<'a, T> {
+    /// Makes a wrapper.
+    ///
+    /// Only the first paragraph is the summary.
+    pub const fn new(inner: &'a T) -> Self {
+        // Braces in strings and chars do not end the impl: "}" '}'
+        let _ = "}";
+        let _ = '{';
+        Wrapper { inner }
+    }
+
+    #[inline]
+    #[must_use]
+    pub fn get(&self) -> &'a T {
+        fn nested_helper() {}
+        self.inner
+    }
+
+    fn private_helper<F>(&self, f: F) -> bool
+    where
+        F: Fn(&T) -> bool,
+    {
+        f(self.inner)
+    }
+
+    pub async unsafe fn qualified(&self) {}
+
+    pub extern "C" fn ffi() {}
+
+    fn _hidden() {}
+}
+
+/// Trait impl docs.
+impl<'a, T> core::fmt::Display for Wrapper<'a, T>
+where
+    T: core::fmt::Display + ?Sized,
+{
+    fn fmt(&self, f: &mut core::fmt::Formatter<'_>) -> core::fmt::Result {
+        self.inner.fmt(f)
+    }
+}
+
+unsafe impl<T: Send> Send for Wrapper<'_, T> {}
+
+impl !Sync for Unit {}
+
+impl<F> Tuple
+where
+    F: for<'b> Fn(&'b u8),
+{
+}
+
+impl<const N: usize> From<[u8; N]> for Tuple {
+    fn from(bytes: [u8; N]) -> Self {
+        Tuple(bytes[0], String::new())
+    }
+}
+
+macro_rules! impl_kind {
+    ($t:ty) => {
+        impl From<$t> for Kind {
+            fn from(_: $t) -> Self {
+                Kind::A
+            }
+        }
+    };
+}
+
+impl_kind!(u8);
+impl_kind! { u16 }
+
+pub trait Shape: Sized {
+    /// Associated constant.
+    const SIDES: u32;
+    type Output;
+
+    /// Required method.
+    fn area(&self) -> f64;
+
+    /// Provided method.
+    fn describe(&self) -> String {
+        format!("{} sides", Self::SIDES)
+    }
+}
+
+pub mod nested {
+    //! Module docs.
+
+    pub struct Inner;
+
+    impl Inner {
+        pub fn r#match(&self) -> u8 {
+            0
+        }
+    }
+}
+
+mod external;
+
+extern "C" {
+    /// Foreign function.
+    pub fn abs(input: i32) -> i32;
+}
+
+extern crate alloc;
+
+use std::{collections::HashMap, fmt};
+
+pub type Map<K> = HashMap<K, Wrapper<'static, str>>;
+
+const _: () = {
+    impl Unit {
+        fn in_anonymous_const() {}
+    }
+};
@@ -0,0 +1,5 @@
+var searchIndex = new Map(JSON.parse('[\
+["demo",{"doc":"A demo crate.","t":"FNNH","n":["Wrap","new","from_value","free"],"q":[[0,"demo"],[3,"demo::util"]],"d":["A wrapper.","Makes one.","Makes one from a value that\'s given.",""],"i":"`bb`","f":"````","c":"OjAAAAAAAAA=","p":[[5,"Wrap"]]}]\
+]'));
+if (typeof window !== 'undefined' && window.initSearch) {window.initSearch(searchIndex)};
+if (typeof exports !== 'undefined') {exports.searchIndex = searchIndex};
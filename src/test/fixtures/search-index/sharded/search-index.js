@@ -0,0 +1,5 @@
+var searchIndex = new Map(JSON.parse('[\
+["demo",{"t":"FNNH","n":["Wrap","new","from_value","free"],"q":[[0,"demo"],[3,"demo::util"]],"i":"`bb`","f":"````","D":"dd","e":"OjAAAAEAAAAAAAAAEAAAAAQA","c":"OjAAAAAAAAA=","p":[[5,"Wrap"]],"b":[]}]\
+]'));
+if (typeof exports !== 'undefined') exports.searchIndex = searchIndex;
+else if (window.initSearch) window.initSearch(searchIndex);
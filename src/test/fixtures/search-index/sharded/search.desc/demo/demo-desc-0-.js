@@ -0,0 +1 @@
+searchState.loadedDescShard("demo", 0, "A demo crate.\nA wrapper.")
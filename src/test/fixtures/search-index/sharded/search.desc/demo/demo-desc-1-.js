@@ -0,0 +1 @@
+searchState.loadedDescShard("demo", 1, "Makes one.\nMakes one from a value that's given.")
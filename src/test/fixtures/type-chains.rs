@@ -0,0 +1,60 @@
+use std::ops::Deref;
+
+pub enum Error {
+    Parse,
+}
+
+/// Results of parsing.
+#[allow(dead_code)]
+pub type Result<T> = std::result::Result<T,
+    Error>;
+
+pub struct Inner;
+
+impl Inner {
+    pub fn inner_method(&self) {}
+}
+
+pub type InnerAlias = Inner;
+
+/// An alias of an alias.
+pub type AliasOfAlias =
+    self::InnerAlias;
+
+pub struct Outer(Inner);
+
+impl Deref for Outer {
+    type Target = AliasOfAlias;
+    fn deref(&self) -> &Inner { &self.0 }
+}
+
+pub struct Loop1;
+pub struct Loop2;
+impl Deref for Loop1 { type Target = Loop2; fn deref(&self) -> &Loop2 { &Loop2 } }
+impl Deref for Loop2 { type Target = Loop1; fn deref(&self) -> &Loop1 { &Loop1 } }
+
+pub struct Text(String);
+impl Deref for Text { type Target = str; fn deref(&self) -> &str { &self.0 } }
+
+pub struct Bytes(Vec<u8>);
+impl Deref for Bytes { type Target = [u8]; fn deref(&self) -> &[u8] { &self.0 } }
+
+pub struct Chain0;
+pub struct Chain1;
+pub struct Chain2;
+pub struct Chain3;
+pub struct Chain4;
+pub struct Chain5;
+pub struct Chain6;
+pub struct Chain7;
+pub struct Chain8;
+pub struct Chain9;
+impl Deref for Chain0 { type Target = Chain1; fn deref(&self) -> &Chain1 { &Chain1 } }
+impl Deref for Chain1 { type Target = Chain2; fn deref(&self) -> &Chain2 { &Chain2 } }
+impl Deref for Chain2 { type Target = Chain3; fn deref(&self) -> &Chain3 { &Chain3 } }
+impl Deref for Chain3 { type Target = Chain4; fn deref(&self) -> &Chain4 { &Chain4 } }
+impl Deref for Chain4 { type Target = Chain5; fn deref(&self) -> &Chain5 { &Chain5 } }
+impl Deref for Chain5 { type Target = Chain6; fn deref(&self) -> &Chain6 { &Chain6 } }
+impl Deref for Chain6 { type Target = Chain7; fn deref(&self) -> &Chain7 { &Chain7 } }
+impl Deref for Chain7 { type Target = Chain8; fn deref(&self) -> &Chain8 { &Chain8 } }
+impl Deref for Chain8 { type Target = Chain9; fn deref(&self) -> &Chain9 { &Chain9 } }
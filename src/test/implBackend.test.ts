@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ImplIndex, IndexedImplBlock, implTargetName } from '../implIndex';
+import { RustAnalyzerBackend, SourceIndexBackend } from '../implBackend';
+import { itemStability, parseRustFile } from '../rustParser';
+
+const FIXTURE = vscode.Uri.file(path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'rust', 'edge-cases.rs'));
+const SELECTOR: vscode.DocumentSelector = { pattern: '**/fixtures/rust/edge-cases.rs' };
+
+// Impl blocks with their methods, as the extension's parser reports them
+function parseImpls(source: string, filePath: string): IndexedImplBlock[] {
+	return parseRustFile(source).items
+		.filter(item => item.impl)
+		.map(item => ({
+			header: item.signature,
+			comment: item.docs.split('\n')[0] || undefined,
+			traitName: item.impl!.traitName,
+			selfType: item.impl!.selfType,
+			selfName: implTargetName(item.impl!.selfType),
+			filePath,
+			line: item.line,
+			endLine: item.endLine,
+			methods: item.children.map(child => ({ signature: child.name, doc: child.docs, line: child.line, isPublic: child.visibility !== '', qualifiers: child.qualifiers, stability: itemStability(child.attributes) }))
+		}));
+}
+
+// Where the fixture defines a type, as a definition provider would report it
+async function definitionOf(name: string): Promise<vscode.Location> {
+	const document = await vscode.workspace.openTextDocument(FIXTURE);
+	const offset = document.getText().search(new RegExp(`(?:struct|enum) ${name}\\b`));
+	return new vscode.Location(FIXTURE, document.positionAt(document.getText().indexOf(name, offset)));
+}
+
+suite('Impl Backends', () => {
+	let index: ImplIndex;
+	let stubs: vscode.Disposable[];
+
+	setup(() => {
+		index = new ImplIndex(parseImpls, () => undefined, () => '');
+		stubs = [];
+	});
+
+	teardown(() => {
+		stubs.forEach(stub => stub.dispose());
+	});
+
+	// A stub implementation provider that reports the given lines for the type named at the position
+	function stubImplementations(lines: { [typeName: string]: number[] }) {
+		stubs.push(vscode.languages.registerImplementationProvider(SELECTOR, {
+			provideImplementation(document, position) {
+				const name = document.getText(document.getWordRangeAtPosition(position));
+				return (lines[name] || []).map(line => new vscode.Location(document.uri, new vscode.Position(line, 0)));
+			}
+		}));
+	}
+
+	test('takes impl blocks written in the source from the index', async () => {
+		stubImplementations({ Wrapper: [39, 72, 81] });
+		const backend = new RustAnalyzerBackend(index);
+		const blocks = await backend.implsOf({ name: 'Wrapper', location: await definitionOf('Wrapper'), searchPaths: [] });
+
+		assert.deepStrictEqual(blocks.map(block => block.traitName), [undefined, 'core::fmt::Display', 'Send']);
+		assert.deepStrictEqual(blocks[0].methods.map(method => method.signature), ['new', 'get', 'private_helper', 'qualified', 'ffi', '_hidden']);
+		assert.ok(blocks[0].methods[0].doc.startsWith('Makes a wrapper.'));
+	});
+
+	test('keeps only trait impls as implementors', async () => {
+		stubImplementations({ Wrapper: [39, 72, 81] });
+		const backend = new RustAnalyzerBackend(index);
+		const blocks = await backend.implementorsOf({ name: 'Wrapper', location: await definitionOf('Wrapper'), searchPaths: [] });
+
+		assert.deepStrictEqual(blocks.map(block => block.line), [72, 81]);
+	});
+
+	test('reads impls the parser does not reach from the document symbols', async () => {
+		stubImplementations({ Unit: [83, 150] });
+		stubs.push(vscode.languages.registerDocumentSymbolProvider(SELECTOR, {
+			provideDocumentSymbols() {
+				const impl = new vscode.DocumentSymbol('impl Unit', '', vscode.SymbolKind.Object, new vscode.Range(150, 4, 152, 5), new vscode.Range(150, 9, 150, 13));
+				impl.children.push(new vscode.DocumentSymbol('in_anonymous_const', 'fn()', vscode.SymbolKind.Function, new vscode.Range(151, 8, 151, 34), new vscode.Range(151, 11, 151, 29)));
+				return [impl];
+			}
+		}));
+		const backend = new RustAnalyzerBackend(index);
+		const blocks = await backend.implsOf({ name: 'Unit', location: await definitionOf('Unit'), searchPaths: [] });
+
+		assert.deepStrictEqual(blocks.map(block => [block.header, block.traitName, block.selfName]), [
+			['impl !Sync for Unit', 'Sync', 'Unit'],
+			['impl Unit', undefined, 'Unit']
+		]);
+		assert.deepStrictEqual(blocks[1].methods.map(method => [method.signature, method.line]), [['in_anonymous_const()', 151]]);
+	});
+
+	test('reports macro-generated impls at their invocation', async () => {
+		stubImplementations({ Kind: [107] });
+		const backend = new RustAnalyzerBackend(index);
+		const blocks = await backend.implsOf({ name: 'Kind', location: await definitionOf('Kind'), searchPaths: [] });
+
+		assert.strictEqual(blocks.length, 1);
+		assert.strictEqual(blocks[0].header, 'impl_kind!(u8)');
+		assert.strictEqual(blocks[0].comment, 'Generated by impl_kind!');
+		assert.strictEqual(blocks[0].selfName, 'Kind');
+		assert.strictEqual(blocks[0].generated, true);
+	});
+
+	test('finds nothing without a location or provider', async () => {
+		const backend = new RustAnalyzerBackend(index);
+		assert.deepStrictEqual(await backend.implsOf({ name: 'Wrapper', searchPaths: [] }), []);
+		assert.deepStrictEqual(await backend.implsOf({ name: 'Wrapper', location: await definitionOf('Wrapper'), searchPaths: [] }), []);
+	});
+
+	test('resolves the type of a value with the type definition provider', async () => {
+		const target = new vscode.Range(11, 11, 11, 18);
+		stubs.push(vscode.languages.registerTypeDefinitionProvider(SELECTOR, {
+			provideTypeDefinition() {
+				return [{ targetUri: FIXTURE, targetRange: new vscode.Range(5, 0, 14, 1), targetSelectionRange: target }];
+			}
+		}));
+		const backend = new RustAnalyzerBackend(index);
+		const location = await backend.typeDefinitionAt(FIXTURE, new vscode.Position(13, 4));
+
+		assert.strictEqual(location?.uri.fsPath, FIXTURE.fsPath);
+		assert.ok(location?.range.isEqual(target));
+	});
+
+	test('finds types by name with the workspace symbol provider, preferring the given root', async () => {
+		const elsewhere = vscode.Uri.file('/elsewhere/src/lib.rs');
+		stubs.push(vscode.languages.registerWorkspaceSymbolProvider({
+			provideWorkspaceSymbols(query) {
+				return [
+					new vscode.SymbolInformation(query, vscode.SymbolKind.Function, '', new vscode.Location(FIXTURE, new vscode.Position(0, 0))),
+					new vscode.SymbolInformation(query, vscode.SymbolKind.Struct, '', new vscode.Location(elsewhere, new vscode.Position(0, 0))),
+					// Reported from the start of the docs: the name is looked up in the range
+					new vscode.SymbolInformation(query, vscode.SymbolKind.Struct, '', new vscode.Location(FIXTURE, new vscode.Range(5, 0, 14, 1)))
+				];
+			}
+		}));
+		const backend = new RustAnalyzerBackend(index);
+		const location = await backend.findType('Wrapper', path.dirname(FIXTURE.fsPath));
+
+		assert.strictEqual(location?.uri.fsPath, FIXTURE.fsPath);
+		assert.deepStrictEqual([location?.range.start.line, location?.range.start.character], [11, 11]);
+	});
+
+	test('source index finds impls by name, once per block', async () => {
+		const backend = new SourceIndexBackend(index);
+		const root = path.dirname(FIXTURE.fsPath);
+		const blocks = await backend.implsOf({ name: 'Tuple', searchPaths: [root, root] });
+
+		assert.deepStrictEqual(blocks.map(block => block.header), [
+			'impl<F> Tuple where F: for<\'b> Fn(&\'b u8),',
+			'impl<const N: usize> From<[u8; N]> for Tuple'
+		]);
+		assert.strictEqual(await backend.findType(), undefined);
+	});
+});
@@ -0,0 +1,176 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findMethodItem, ImplIndex, IndexedImplBlock, isImmutableSource } from '../implIndex';
+import { parseRustFile } from '../rustParser';
+import { FakeClock } from './fakeClock';
+
+// One block per `impl Name` line, enough to tell what the index parsed
+function parseImplLines(source: string, filePath: string): IndexedImplBlock[] {
+	return source.split('\n').flatMap((line, index) => {
+		const match = /^impl (\w+)/.exec(line);
+		return match
+			? [{ header: `impl ${match[1]}`, selfType: match[1], selfName: match[1], filePath, line: index, endLine: index, methods: [] }]
+			: [];
+	});
+}
+
+suite('Impl Index', () => {
+	let root: string;
+	let parsed: string[];
+	let fingerprint: string;
+	let watched: boolean;
+	let clock: FakeClock | undefined;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'impl-index-'));
+		parsed = [];
+		fingerprint = 'a';
+		watched = false;
+		clock = undefined;
+	});
+
+	teardown(() => {
+		clock?.uninstall();
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	function newIndex(storageDir?: string): ImplIndex {
+		return new ImplIndex((source, filePath) => {
+			parsed.push(path.relative(root, filePath));
+			return parseImplLines(source, filePath);
+		}, () => storageDir, () => fingerprint, () => watched);
+	}
+
+	function write(relativePath: string, source: string): string {
+		const filePath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, source);
+		return filePath;
+	}
+
+	test('parses a file once, and again when it changes', async () => {
+		const filePath = write('a.rs', 'impl A {}');
+		const index = newIndex();
+		assert.strictEqual((await index.implsOf('A', root)).length, 1);
+		assert.strictEqual((await index.implsOf('A', root)).length, 1);
+		assert.deepStrictEqual(parsed, ['a.rs']);
+
+		fs.writeFileSync(filePath, 'impl A {}\nimpl A {}');
+		const later = new Date(Date.now() + 10000);
+		fs.utimesSync(filePath, later, later);
+		assert.strictEqual((await index.implsOf('A', root)).length, 2);
+		assert.deepStrictEqual(parsed, ['a.rs', 'a.rs']);
+	});
+
+	test('lists new files of watched trees once invalidated', async () => {
+		watched = true;
+		write('a.rs', 'impl A {}');
+		const index = newIndex();
+		await index.implsOf('A', root);
+
+		const created = write('b.rs', 'impl B {}');
+		assert.deepStrictEqual(await index.implsOf('B', root), []);
+		index.invalidate(created, true);
+		assert.deepStrictEqual((await index.implsOf('B', root)).map(block => block.header), ['impl B']);
+	});
+
+	test('lists unwatched trees again on each lookup', async () => {
+		write('a.rs', 'impl A {}');
+		const index = newIndex();
+		await index.implsOf('A', root);
+
+		const created = write('b.rs', 'impl B {}');
+		assert.deepStrictEqual((await index.implsOf('B', root)).map(block => block.header), ['impl B']);
+		fs.rmSync(created);
+		assert.deepStrictEqual(await index.implsOf('B', root), []);
+	});
+
+	test('keeps entries across settings changes that leave the fingerprint alone', async () => {
+		write('a.rs', 'impl A {}');
+		const index = newIndex();
+		await index.implsOf('A', root);
+
+		index.settingsChanged();
+		await index.implsOf('A', root);
+		assert.deepStrictEqual(parsed, ['a.rs']);
+
+		fingerprint = 'b';
+		index.settingsChanged();
+		await index.implsOf('A', root);
+		assert.deepStrictEqual(parsed, ['a.rs', 'a.rs']);
+	});
+
+	test('saves immutable sources to disk and reads them back under the same fingerprint', async () => {
+		clock = new FakeClock();
+		const registry = path.join(root, '.cargo', 'registry', 'src', 'demo-1.0.0');
+		write(path.join('.cargo', 'registry', 'src', 'demo-1.0.0', 'src', 'lib.rs'), 'impl Demo {}');
+		const storageDir = path.join(root, 'storage');
+
+		await newIndex(storageDir).implsOf('Demo', registry);
+		await clock.tick(2000);
+		assert.ok(fs.existsSync(path.join(storageDir, 'impl-index.json')));
+		assert.strictEqual(parsed.length, 1);
+
+		// A new session reads the blocks from disk
+		const index = newIndex(storageDir);
+		assert.deepStrictEqual((await index.implsOf('Demo', registry)).map(block => block.header), ['impl Demo']);
+		assert.strictEqual(parsed.length, 1);
+
+		// Under other settings the cache is ignored, and read again once they are back
+		fingerprint = 'b';
+		const other = newIndex(storageDir);
+		await other.implsOf('Demo', registry);
+		assert.strictEqual(parsed.length, 2);
+		fingerprint = 'a';
+		other.settingsChanged();
+		await other.implsOf('Demo', registry);
+		assert.strictEqual(parsed.length, 2);
+	});
+
+	test('tells immutable sources by their path with either separator', () => {
+		assert.ok(isImmutableSource('/home/me/.cargo/registry/src/index.crates.io-6f17d22bba15001f/bytes-1.5.0/src/lib.rs'));
+		assert.ok(isImmutableSource('C:\\Users\\me\\.cargo\\registry\\src\\index.crates.io-6f17d22bba15001f\\bytes-1.5.0\\src\\lib.rs'));
+		assert.ok(isImmutableSource('C:\\Users\\me\\.cargo\\git\\checkouts\\demo-1a2b\\abc123\\src\\lib.rs'));
+		assert.ok(isImmutableSource('C:\\Users\\me\\.rustup\\toolchains\\stable-x86_64-pc-windows-msvc\\lib\\rustlib\\src\\rust\\library\\core\\src\\lib.rs'));
+		assert.ok(isImmutableSource('/opt/rust/lib/rustlib/src/rust/library/core/src/lib.rs'));
+		assert.ok(!isImmutableSource('C:\\work\\demo\\src\\lib.rs'));
+		assert.ok(!isImmutableSource('/work/cargo/registry/src/lib.rs'));
+	});
+
+	test('finds a method by its listed line, then by its parent, then by name', () => {
+		const items = parseRustFile([
+			'impl Wrap<u8> {',
+			'    pub fn get(&self) -> u8 { 0 }',
+			'}',
+			'impl<T: Copy> Wrap<T> {',
+			'    pub fn get(&self) -> T { self.0 }',
+			'}',
+			'impl Other {',
+			'    pub fn get(&self) {}',
+			'}',
+			'trait Getter {',
+			'    fn get(&self);',
+			'}',
+			'mod inner {',
+			'    impl super::Wrap<u32> { pub fn get(&self) -> u32 { 0 } }',
+			'}'
+		].join('\n')).items;
+		const found = (parentName: string, line: number) => {
+			const method = findMethodItem(items, 'get', parentName, line);
+			return method && [method.item.line, method.container?.impl?.selfType ?? method.container?.name];
+		};
+
+		// Same-named methods of one type, in impls for different type arguments: the listed line decides
+		assert.deepStrictEqual(found('Wrap', 4), [4, 'Wrap<T>']);
+		assert.deepStrictEqual(found('Wrap', 13), [13, 'super::Wrap<u32>']);
+		// A stale line: the first impl of the parent type, or the parent trait
+		assert.deepStrictEqual(found('Other', 99), [7, 'Other']);
+		assert.deepStrictEqual(found('Getter', -1), [10, 'Getter']);
+		assert.deepStrictEqual(found('Wrap', -1), [1, 'Wrap<u8>']);
+		// An unknown parent: the first method of that name
+		assert.deepStrictEqual(found('Missing', -1), [1, 'Wrap<u8>']);
+		assert.strictEqual(findMethodItem(items, 'set', 'Wrap', 1), undefined);
+	});
+});
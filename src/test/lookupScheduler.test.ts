@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { LookupScheduler } from '../lookupScheduler';
+import { FakeClock } from './fakeClock';
+
+suite('Lookup Scheduler', () => {
+	let clock: FakeClock;
+	let delay: number;
+	let scheduler: LookupScheduler;
+
+	setup(() => {
+		clock = new FakeClock();
+		delay = 100;
+		scheduler = new LookupScheduler(() => delay);
+	});
+
+	teardown(() => {
+		scheduler.dispose();
+		clock.uninstall();
+	});
+
+	test('runs a lookup once the delay has passed', async () => {
+		const runs: string[] = [];
+		scheduler.schedule(async () => {
+			runs.push('a');
+		});
+
+		await clock.tick(99);
+		assert.deepStrictEqual(runs, []);
+		await clock.tick(1);
+		assert.deepStrictEqual(runs, ['a']);
+	});
+
+	test('drops a waiting lookup for a newer one, which waits the full delay again', async () => {
+		const runs: string[] = [];
+		let first: vscode.CancellationToken | undefined;
+		scheduler.schedule(async token => {
+			first = token;
+			runs.push('a');
+		});
+		await clock.tick(60);
+		scheduler.schedule(async () => {
+			runs.push('b');
+		});
+
+		await clock.tick(60);
+		assert.deepStrictEqual(runs, []);
+		await clock.tick(40);
+		assert.deepStrictEqual(runs, ['b']);
+		assert.strictEqual(first, undefined);
+		assert.strictEqual(clock.pending, 0);
+	});
+
+	test('cancels a running lookup when a newer one is scheduled', async () => {
+		let release!: () => void;
+		let running: vscode.CancellationToken | undefined;
+		scheduler.schedule(async token => {
+			running = token;
+			await new Promise<void>(resolve => release = resolve);
+			throw new vscode.CancellationError();
+		});
+		// The lookup starts and waits for release (tick resolves once it has ended)
+		const started = clock.tick(100);
+		await Promise.resolve();
+		assert.strictEqual(running?.isCancellationRequested, false);
+
+		scheduler.schedule(async () => {});
+		assert.strictEqual(running?.isCancellationRequested, true);
+
+		// Its cancellation error ends it quietly
+		release();
+		await started;
+	});
+
+	test('cancel stops both waiting and running lookups', async () => {
+		let ran = false;
+		scheduler.schedule(async () => {
+			ran = true;
+		});
+		scheduler.cancel();
+		await clock.tick(1000);
+		assert.strictEqual(ran, false);
+		assert.strictEqual(clock.pending, 0);
+	});
+
+	test('reads the delay for each lookup', async () => {
+		delay = 10;
+		const runs: string[] = [];
+		scheduler.schedule(async () => {
+			runs.push('a');
+		});
+		await clock.tick(10);
+		assert.deepStrictEqual(runs, ['a']);
+	});
+});
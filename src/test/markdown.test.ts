@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { exampleLines, renderMarkdown, isIntraDocPath, MarkdownContext } from '../markdown';
+
+// Each fixtures/markdown/<name>.md is rendered and compared with <name>.html.
+// Set UPDATE_GOLDEN=1 to rewrite the expected files after an intended rendering change.
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'markdown');
+
+// Hover fixtures ("hover-*.md") mirror rust-analyzer hovers, which start with code blocks for the item's container
+// path and declaration
+function fixtureContext(name: string): MarkdownContext {
+	return {
+		filePath: '/workspace/src/lib.rs',
+		line: 10,
+		selfType: 'NaiveDate',
+		firstBlockAsTitle: name.startsWith('hover-')
+	};
+}
+
+suite('Markdown Rendering', () => {
+	for (const file of fs.readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.md'))) {
+		test(`golden: ${file}`, () => {
+			const name = path.basename(file, '.md');
+			const markdown = fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8');
+			const actual = renderMarkdown(markdown, fixtureContext(name));
+			const goldenPath = path.join(FIXTURES_DIR, `${name}.html`);
+
+			if (process.env.UPDATE_GOLDEN) {
+				fs.writeFileSync(goldenPath, actual);
+			}
+			assert.strictEqual(actual, fs.readFileSync(goldenPath, 'utf8'));
+		});
+	}
+
+	test('escapes inline code and raw HTML', () => {
+		const html = renderMarkdown('Returns `Vec<T>` <script>alert(1)</script>');
+		assert.ok(html.includes('<code>Vec&lt;T&gt;</code>'));
+		assert.ok(!html.includes('<script>'));
+	});
+
+	test('does not treat pointer types as emphasis', () => {
+		const html = renderMarkdown('Casts *const T to *mut T.');
+		assert.strictEqual(html, '<p>Casts *const T to *mut T.</p>\n');
+	});
+
+	test('renders intra-doc links with their resolution context', () => {
+		const html = renderMarkdown('See [`Self::new`] and [`Duration`].\n\n[`Duration`]: crate::TimeDelta', { filePath: '/src/lib.rs', selfType: 'Foo' });
+		assert.ok(html.includes('data-intra-doc="Self::new" data-file-path="/src/lib.rs" data-self-type="Foo"'));
+		assert.ok(html.includes('data-intra-doc="crate::TimeDelta"'));
+	});
+
+	test('keeps only web links and intra-doc links', () => {
+		const html = renderMarkdown('[a](https://docs.rs) [b](javascript:alert(1)) [c](../x.html)');
+		assert.ok(html.includes('<a href="https://docs.rs">a</a>'));
+		assert.ok(!html.includes('javascript:alert(1)"'));
+		assert.ok(!html.includes('x.html'));
+	});
+
+	test('hides rustdoc hidden lines in Rust examples only, behind a toggle', () => {
+		const html = renderMarkdown('```\n# use std::io;\n## [attr]\nfoo();\n```');
+		const visible = html.match(/<code class="hljs example-visible">([^]*?)<\/code>/)![1];
+		const full = html.match(/<code class="hljs example-full">([^]*?)<\/code>/)![1];
+		assert.ok(!visible.includes('std::io') && visible.includes('# [attr]'));
+		assert.ok(full.includes('std::io') && !full.includes('# use'));
+		assert.ok(html.includes('data-example-action="toggleHidden"'));
+		assert.ok(!renderMarkdown('```\nfoo();\n```').includes('toggleHidden'));
+		assert.ok(renderMarkdown('```text\n# shown\n```').includes('# shown'));
+	});
+
+	test('parses fence attributes into badges and keeps highlighting Rust', () => {
+		const html = renderMarkdown('```rust, no_run,edition2021\nlet x = 1;\n```\n\n```ignore-wasm32\nlet y = 2;\n```');
+		assert.deepStrictEqual(html.match(/(?<=example-badge">)[^<]+/g), ['no run', 'edition 2021', 'ignore on wasm32']);
+		assert.strictEqual(html.match(/hljs-keyword">let/g)?.length, 2);
+	});
+
+	test('offers to run Rust examples of workspace items as doctests', () => {
+		const doctest = { packageName: 'util', path: 'Wrap<T>::new', exampleLines: [12, 16, 20] };
+		const runLines = (markdown: string) => renderMarkdown(markdown, { doctest }).match(/(?<=data-doctest-line=")\d+/g) ?? [];
+		assert.ok(renderMarkdown('```\nfoo();\n```', { doctest }).includes('data-package="util" data-doctest="Wrap&lt;T&gt;::new" data-doctest-line="12"'));
+		// Each Rust example runs the doctest at its own line; text blocks are not counted
+		assert.deepStrictEqual(runLines('```\nfoo();\n```\n\n```text\nfoo\n```\n\n```should_panic\nfoo();\n```\n\n    indented();'), ['12', '16', '20']);
+		assert.deepStrictEqual(runLines('```rust,ignore\nfoo();\n```\n\n```\nfoo();\n```'), ['16']);
+		// Examples beyond the known lines cannot be told apart from the others
+		assert.deepStrictEqual(runLines('```\na();\n```\n\n```\nb();\n```\n\n```\nc();\n```\n\n```\nd();\n```'), ['12', '16', '20']);
+		assert.strictEqual(renderMarkdown('```\nfoo();\n```').match(/data-example-action="run"/g), null);
+	});
+
+	test('links a hover title to its source through data attributes', () => {
+		const html = renderMarkdown('```rust\nfoo::Bar\n```', { filePath: "/work/it's/lib.rs", line: 3, firstBlockAsTitle: true });
+		assert.strictEqual(html, '<h3><a href="#" data-source-file="/work/it&#039;s/lib.rs" data-source-line="3">foo::Bar</a></h3>');
+	});
+
+	test('runs each example of a hover at its own line, not the declaration', () => {
+		const hover = fs.readFileSync(path.join(FIXTURES_DIR, 'hover-naive-date-checked-add-days.md'), 'utf8');
+		const doctest = { packageName: 'chrono', path: 'NaiveDate::checked_add_days', exampleLines: [40, 52] };
+		const html = renderMarkdown(`${hover}\n\n\`\`\`\nlet later = 1;\n\`\`\`\n`, { ...fixtureContext('hover-naive-date-checked-add-days'), doctest });
+
+		assert.ok(html.includes('<pre class="item-decl"><code class="hljs"><span class="hljs-keyword">pub</span>'));
+		const examples = html.split('<div class="example-wrap">').slice(1)
+			.map(example => [example.match(/data-doctest-line="(\d+)"/)?.[1], example.includes('later') ? 'appended' : example.includes('1000000000000') ? 'docs' : 'other']);
+		assert.deepStrictEqual(examples, [['40', 'docs'], ['52', 'appended']]);
+	});
+
+	test('finds the lines of Rust examples', () => {
+		assert.deepStrictEqual(exampleLines('Intro.\n\n    a();\n\n```\nb();\n```\n\n```text\nc\n```\n\n- item\n\n  ```rust,ignore\n  d();\n  ```'), [2, 4, 14]);
+	});
+
+	test('splits docs into collapsible sections at their top-level headings', () => {
+		const html = renderMarkdown('Intro.\n\n## Examples\n\n### Nested\n\ntext\n\n## Panics\n\nIf empty.\n\n## Safety\n\nCaller checks.');
+		assert.ok(html.startsWith('<p>Intro.</p>\n<details class="doc-section" data-section="examples" open><summary><h3>Examples</h3>'));
+		assert.ok(html.includes('<h4>Nested</h4>'));
+		assert.deepStrictEqual(html.match(/(?<=<details class=")[^"]+/g), ['doc-section', 'doc-section panics', 'doc-section safety']);
+		assert.strictEqual(html.match(/<\/details>/g)?.length, 3);
+		assert.ok(!renderMarkdown('No headings.').includes('<details'));
+	});
+
+	test('recognizes intra-doc paths', () => {
+		for (const target of ['Vec', 'Self::new', 'crate::fmt::Item', 'struct@Foo', 'vec!', 'Vec::new()']) {
+			assert.ok(isIntraDocPath(target), target);
+		}
+		for (const target of ['https://docs.rs', '../foo.html', '#examples', 'a b']) {
+			assert.ok(!isIntraDocPath(target), target);
+		}
+	});
+});
@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { itemStability, methodReceiver, moduleSections, parseRustFile, tokenize, useTreePaths, RustItem } from '../rustParser';
+
+// Each fixtures/rust/<name>.rs is parsed and its outline compared with <name>.outline.
+// Set UPDATE_GOLDEN=1 to rewrite the expected files after an intended parser change.
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'rust');
+
+// One line per item: 1-based line range, kind, name and signature, then its attributes, impl parts and first doc line
+function outline(items: RustItem[], indent: string = ''): string {
+	let text = '';
+	for (const item of items) {
+		text += `${indent}${item.line + 1}-${item.endLine + 1} ${item.kind} ${item.name ? `[${item.name}] ` : ''}${item.signature}\n`;
+		for (const attribute of item.attributes) {
+			text += `${indent}  #[${attribute}]\n`;
+		}
+		if (item.impl) {
+			text += `${indent}  impl: generics=${item.impl.generics || '-'} trait=${item.impl.traitName ?? '-'}${item.impl.negative ? ' (negative)' : ''} self=${item.impl.selfType} where=${item.impl.whereClause ?? '-'}\n`;
+		}
+		if (item.docs) {
+			text += `${indent}  /// ${item.docs.split('\n')[0]}${item.docs.includes('\n') ? ' …' : ''}\n`;
+		}
+		if (item.innerDocs) {
+			text += `${indent}  //! ${item.innerDocs.split('\n')[0]}\n`;
+		}
+		text += outline(item.children, indent + '  ');
+	}
+	return text;
+}
+
+suite('Rust Item Parser', () => {
+	for (const file of fs.readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.rs'))) {
+		test(`golden: ${file}`, () => {
+			const parsed = parseRustFile(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+			const actual = (parsed.innerDocs ? `//! ${parsed.innerDocs.split('\n')[0]}\n` : '') + outline(parsed.items);
+			const goldenPath = path.join(FIXTURES_DIR, `${path.basename(file, '.rs')}.outline`);
+
+			if (process.env.UPDATE_GOLDEN) {
+				fs.writeFileSync(goldenPath, actual);
+			}
+			assert.strictEqual(actual, fs.readFileSync(goldenPath, 'utf8'));
+		});
+	}
+
+	test('tells lifetimes from character literals', () => {
+		const tokens = tokenize(`fn f<'a>(x: &'a str) -> char { '{' } '\\'' 'static`);
+		assert.deepStrictEqual(tokens.filter(token => token.kind === 'lifetime').map(token => token.text), [`'a`, `'a`, `'static`]);
+		assert.deepStrictEqual(tokens.filter(token => token.kind === 'literal').map(token => token.text), [`'{'`, `'\\''`]);
+	});
+
+	test('skips comments and strings, keeping doc comments', () => {
+		const tokens = tokenize('/* a /* nested */ } */ "}" r#"}"# //// plain\n/// doc\n//! inner\nx');
+		assert.deepStrictEqual(tokens.map(token => `${token.kind}:${token.text}`), [
+			'literal:"}"', 'literal:r#"}"#', 'outerDoc: doc', 'innerDoc: inner', 'ident:x'
+		]);
+		assert.strictEqual(tokens[4].line, 3);
+	});
+
+	test('collects docs from comments and doc attributes', () => {
+		const [item] = parseRustFile('/// First\n#[doc = " Second\\n Third"]\n#[inline]\n/** Fourth */\nfn f() {}').items;
+		assert.strictEqual(item.docs, 'First\nSecond\nThird\nFourth');
+		assert.deepStrictEqual(item.attributes, ['inline']);
+	});
+
+	test('attributes methods to the impl block that contains them', () => {
+		const source = 'impl A {\n    fn a() { let s = "}"; }\n}\nfn free() {}\nimpl B { fn b(); }';
+		const items = parseRustFile(source).items;
+		assert.deepStrictEqual(items.map(item => [item.kind, item.children.map(child => child.name)]), [
+			['impl', ['a']], ['fn', []], ['impl', ['b']]
+		]);
+	});
+
+	test('reads fields and variants with their docs and attributes', () => {
+		const source = [
+			'pub struct Map<K, V> {',
+			'    /** Block docs. */',
+			'    #[serde(',
+			'        rename = "e",',
+			'    )]',
+			'    pub(crate) entries: HashMap<K, Vec<V>>,',
+			'    #[doc = "Attribute docs."]',
+			'    len: usize,',
+			'}',
+			'pub struct Pair<T>(pub T, #[doc(hidden)] (u8, u8)) where T: Copy;',
+			'enum E {',
+			'    /// Unit.',
+			'    A = 1 << 2,',
+			'    B(Option<(u8, u8)>, String),',
+			'    #[allow(unused)] C { x: u8, /// Why.',
+			'    y: fn(u8) -> u8 },',
+			'}'
+		].join('\n');
+		const [map, pair, e] = parseRustFile(source).items;
+		assert.deepStrictEqual(map.children.map(field => [field.kind, field.name, field.visibility, field.fieldType, field.docs, field.attributes, field.line]), [
+			['field', 'entries', 'pub(crate)', 'HashMap<K, Vec<V>>', 'Block docs.', ['serde( rename = "e", )'], 5],
+			['field', 'len', '', 'usize', 'Attribute docs.', [], 7]
+		]);
+		assert.deepStrictEqual(pair.children.map(field => [field.name, field.visibility, field.fieldType]), [['0', 'pub', 'T'], ['1', '', '(u8, u8)']]);
+		assert.deepStrictEqual(e.children.map(variant => [variant.kind, variant.name, variant.signature, variant.docs]), [
+			['variant', 'A', 'A = 1 << 2', 'Unit.'],
+			['variant', 'B', 'B(Option<(u8, u8)>, String)', ''],
+			['variant', 'C', 'C { x: u8, y: fn(u8) -> u8 }', '']
+		]);
+		assert.deepStrictEqual(e.children[2].children.map(field => [field.name, field.docs]), [['x', ''], ['y', 'Why.']]);
+	});
+
+	test('tells required trait methods from provided ones', () => {
+		const [trait] = parseRustFile('trait T {\n    fn required(&self);\n    fn provided(&self) {}\n}').items;
+		assert.deepStrictEqual(trait.children.map(child => [child.name, child.hasBody]), [['required', false], ['provided', true]]);
+	});
+
+	test('tells how methods take their receiver', () => {
+		const signatures = [
+			'new() -> Self',
+			'get(&self) -> &T',
+			"get_mut<'a>(&'a mut self) -> &'a mut T",
+			'into_inner(self) -> T',
+			'consume(mut self)',
+			'boxed(self: Box<Self>)',
+			'typed(self: &Self)',
+			"typed_mut(self: &'_ mut Self)",
+			'map<F: FnOnce(&T)>(self, f: F)',
+			'from_selfish(selfish: u8)'
+		];
+		assert.deepStrictEqual(signatures.map(methodReceiver), [
+			'none', '&self', '&mut self', 'self', 'self', 'self', '&self', '&mut self', 'self', 'none'
+		]);
+	});
+
+	test('splits impl headers', () => {
+		const [item] = parseRustFile('impl<T: Into<u8>> ops::Add<T> for Wrapper<T> where T: for<\'a> Fn(&\'a u8) {}').items;
+		assert.deepStrictEqual(item.impl, {
+			generics: '<T: Into<u8>>',
+			traitName: 'ops::Add<T>',
+			negative: false,
+			selfType: 'Wrapper<T>',
+			whereClause: 'where T: for<\'a> Fn(&\'a u8)'
+		});
+	});
+
+	test('expands use trees into the paths they import', () => {
+		const paths = (source: string) => useTreePaths(parseRustFile(source).items[0].signature).map(usePath => `${usePath.path} ${usePath.name}`);
+		assert.deepStrictEqual(paths('pub use crate::a::{B, c as D, e::{self, F}};'), [
+			'crate::a::B B', 'crate::a::c D', 'crate::a::e e', 'crate::a::e::F F'
+		]);
+		assert.deepStrictEqual(paths('pub use ::std::io::*;'), ['std::io::* *']);
+		assert.deepStrictEqual(paths('pub(crate) use self::inner::Thing as Alias;'), ['self::inner::Thing Alias']);
+	});
+
+	test('groups module items into sections in rustdoc order', () => {
+		const { items } = parseRustFile([
+			'//! Crate docs.',
+			'pub use inner::Thing;',
+			'use std::fmt;',
+			'pub fn run() {}',
+			'fn helper() {}',
+			'pub struct Config;',
+			'pub mod inner { pub struct Thing; }',
+			'#[macro_export]',
+			'macro_rules! exported { () => {} }',
+			'macro_rules! local { () => {} }',
+			'extern "C" {',
+			'    pub fn ffi_call();',
+			'    fn ffi_private();',
+			'}',
+			'pub(crate) const LIMIT: u8 = 1;',
+			'pub type Alias = Config;'
+		].join('\n'));
+		const sections = (showPrivate: boolean) => moduleSections(items, showPrivate)
+			.map(section => `${section.heading}: ${section.items.map(item => item.name || item.signature).join(', ')}`);
+
+		// Public items, exported macros and extern functions; nested module items stay on the module's own page
+		assert.deepStrictEqual(sections(false), [
+			'Re-exports: pub use inner::Thing', 'Modules: inner', 'Macros: exported', 'Structs: Config', 'Functions: run, ffi_call', 'Type Aliases: Alias'
+		]);
+		// Private items too, but not private imports
+		assert.deepStrictEqual(sections(true), [
+			'Re-exports: pub use inner::Thing', 'Modules: inner', 'Macros: exported, local', 'Structs: Config', 'Functions: run, helper, ffi_call, ffi_private',
+			'Type Aliases: Alias', 'Constants: LIMIT'
+		]);
+	});
+
+	test('reads deprecation and feature gates from attributes', () => {
+		const stability = (source: string) => itemStability(parseRustFile(`${source} fn f() {}`).items[0].attributes);
+		assert.deepStrictEqual(stability('#[inline] #[deprecated]'), { deprecated: { since: undefined, note: undefined } });
+		assert.deepStrictEqual(stability('#[deprecated = "use `g` instead"]'), { deprecated: { since: undefined, note: 'use `g` instead' } });
+		assert.deepStrictEqual(stability('#[deprecated(since = "1.2.0", note = "says \\"no\\"")]'), { deprecated: { since: '1.2.0', note: 'says "no"' } });
+		assert.deepStrictEqual(stability('#[unstable(feature = "new_api", issue = "none")]'), { unstable: { feature: 'new_api' } });
+		assert.deepStrictEqual(stability('#[stable(feature = "rust1", since = "1.0.0")]'), {});
+	});
+});
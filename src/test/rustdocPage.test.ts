@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { renderRustdocPage } from '../rustdocPage';
+
+// A rustdoc page laid out like rustdoc's output, with scripts, event handlers and links of every kind
+const DOCS_ROOT = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'rustdoc');
+const PAGE = path.join(DOCS_ROOT, 'demo', 'struct.Wrap.html');
+
+suite('Rustdoc Pages', () => {
+	test('drops scripts, styles, embedded content and attributes outside the allowlist', async () => {
+		const { title, content } = await renderRustdocPage(PAGE, DOCS_ROOT);
+
+		assert.strictEqual(title, 'demo::Wrap');
+		for (const tag of ['script', 'style', 'link', 'meta', 'img', 'form', 'input', 'iframe', 'rustdoc-toolbar', 'rustdoc-search']) {
+			assert.ok(!content.includes(`<${tag}`), `<${tag}> is removed`);
+		}
+		assert.ok(!/\s(?:onclick|onerror|style|id|src|action)=/.test(content), 'disallowed attributes are removed');
+		assert.ok(!content.includes('alert('));
+		// Rustdoc chrome: anchors, source links, the copy button and the playground link
+		assert.ok(!content.includes('§') && !content.includes('>Source<') && !content.includes('Copy item path') && !content.includes('test-arrow'));
+	});
+
+	test('opens local pages in the sidebar and keeps external links', async () => {
+		const { content } = await renderRustdocPage(PAGE, DOCS_ROOT);
+
+		const other = path.join(DOCS_ROOT, 'demo', 'struct.Other.html');
+		assert.ok(content.includes(`<a href="#" class="doc-link" data-doc-path="${other}" data-doc-anchor="method.new"><code>Other</code></a>`));
+		assert.ok(content.includes('<a href="https://example.com/wrap" class="">the guide</a>'));
+		// javascript: URLs, source pages and pages outside the docs are flattened to text
+		assert.ok(content.includes('<p>Not <span class="">a link</span>, <span class="">source</span> or <span class="">outside</span>.</p>'));
+		// Their class stays inside its attribute
+		assert.ok(content.includes('<p>Flattened <span class="mod&quot; onmouseover=&quot;steal()">with a class</span>.</p>'));
+	});
+
+	test('renders an anchored item with a link back to its page', async () => {
+		const { title, content } = await renderRustdocPage(PAGE, DOCS_ROOT, 'method.new');
+
+		assert.strictEqual(title, 'demo::Wrap::new');
+		assert.ok(content.startsWith('<pre class="item-decl"><code>pub fn '));
+		assert.ok(content.includes('<p>Second paragraph.</p>'));
+		assert.ok(content.endsWith(`<p>Defined on <a href="#" class="doc-link" data-doc-path="${PAGE}" data-doc-anchor=""><code>Wrap</code></a></p>`));
+	});
+});
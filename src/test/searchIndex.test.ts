@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { decodeCrateCorpus, fuzzyScore, itemUrl, loadSearchIndex, RustdocSearchIndex, SearchIndexItem, VlqHexDecoder } from '../searchIndex';
+
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'search-index');
+
+// A slice of std, core and alloc as the search index lists them
+const ITEMS: SearchIndexItem[] = [
+	{ crate: 'std', name: 'vec', kind: 'mod', modulePath: 'std', desc: '' },
+	{ crate: 'std', name: 'Vec', kind: 'struct', modulePath: 'std::vec', desc: 'A contiguous growable array type.' },
+	{ crate: 'alloc', name: 'Vec', kind: 'struct', modulePath: 'alloc::vec', desc: 'A contiguous growable array type.' },
+	{ crate: 'std', name: 'retain', kind: 'method', modulePath: 'std::vec', parent: { kind: 'struct', name: 'Vec' }, desc: '' },
+	{ crate: 'std', name: 'retain', kind: 'method', modulePath: 'std::collections::hash_map', parent: { kind: 'struct', name: 'HashMap' }, desc: '' },
+	{ crate: 'std', name: 'HashMap', kind: 'struct', modulePath: 'std::collections', desc: '' },
+	{ crate: 'core', name: 'u8', kind: 'primitive', modulePath: 'core', desc: '' },
+	{ crate: 'core', name: 'len', kind: 'method', modulePath: 'core', parent: { kind: 'primitive', name: 'str' }, desc: '' }
+];
+
+suite('Search Index', () => {
+	test('decodes VLQ hex numbers and back references', () => {
+		const decoder = new VlqHexDecoder('bdc0B`1`');
+		assert.deepStrictEqual([1, 2, 3, 4, 5, 6, 7].map(() => decoder.next()), [1, 2, -1, -1, 16, -1, 0]);
+	});
+
+	test('expands a crate corpus, repeating names and paths', () => {
+		const items = decodeCrateCorpus('demo', {
+			n: ['Wrap', 'new', '', 'free'],
+			t: 'FNNH',
+			q: [[0, 'demo'], [3, 'demo::util']],
+			p: [[5, 'Wrap']],
+			i: [0, 1, 1, 0],
+			d: ['A wrapper.', 'Makes one.', 'Again.', '']
+		});
+		assert.deepStrictEqual(items.map(item => [item.kind, item.modulePath, item.parent?.name, item.name]), [
+			['struct', 'demo', undefined, 'Wrap'],
+			['method', 'demo', 'Wrap', 'new'],
+			['method', 'demo', 'Wrap', 'new'],
+			['fn', 'demo::util', undefined, 'free']
+		]);
+		assert.strictEqual(items[0].desc, 'A wrapper.');
+	});
+
+	test('reads search-index.js with inline and with sharded descriptions', async () => {
+		for (const layout of ['legacy', 'sharded']) {
+			const index = await loadSearchIndex(path.join(FIXTURES, layout));
+			assert.deepStrictEqual(index.items.map(item => [item.modulePath, item.parent?.name, item.name, item.desc]), [
+				['demo', undefined, 'Wrap', 'A wrapper.'],
+				['demo', 'Wrap', 'new', 'Makes one.'],
+				['demo', 'Wrap', 'from_value', 'Makes one from a value that\'s given.'],
+				['demo::util', undefined, 'free', '']
+			], layout);
+		}
+	});
+
+	test('scores exact, prefix, substring and subsequence matches in that order', () => {
+		const scores = ['retain', 'retain_mut', 'try_retain', 'rxtxaxixn', 'remove'].map(name => fuzzyScore('retain', name));
+		assert.ok(scores[0] > scores[1] && scores[1] > scores[2] && scores[2] > scores[3]);
+		assert.strictEqual(scores[4], -1);
+	});
+
+	test('builds page URLs like rustdoc', () => {
+		assert.deepStrictEqual(ITEMS.map(itemUrl), [
+			'std/vec/index.html',
+			'std/vec/struct.Vec.html',
+			'alloc/vec/struct.Vec.html',
+			'std/vec/struct.Vec.html#method.retain',
+			'std/collections/hash_map/struct.HashMap.html#method.retain',
+			'std/collections/struct.HashMap.html',
+			'core/primitive.u8.html',
+			'core/primitive.str.html#method.len'
+		]);
+		const field = { crate: 'demo', name: 'code', kind: 'structfield', modulePath: 'demo::Error', parent: { kind: 'variant', name: 'Io' }, desc: '' };
+		assert.strictEqual(itemUrl(field), 'demo/enum.Error.html#variant.Io.field.code');
+	});
+
+	test('ranks by name and path, shallow paths first and re-exports once', () => {
+		const index = new RustdocSearchIndex('/docs', ITEMS);
+		assert.deepStrictEqual(index.search('Vec::retain').map(result => result.fullPath), ['std::vec::Vec::retain']);
+		assert.deepStrictEqual(index.search('vec').map(result => result.fullPath), ['std::vec', 'std::vec::Vec']);
+		assert.deepStrictEqual(index.search('retain', 1).map(result => result.fullPath), ['std::vec::Vec::retain']);
+	});
+
+	test('looks up items by name and parent, and by path', () => {
+		const index = new RustdocSearchIndex('/docs', ITEMS);
+		assert.strictEqual(index.lookup('retain', 'HashMap')?.url, 'std/collections/hash_map/struct.HashMap.html#method.retain');
+		assert.strictEqual(index.lookup('Vec')?.item.crate, 'std');
+		assert.strictEqual(index.lookup('Vec', undefined, 'alloc')?.url, 'alloc/vec/struct.Vec.html');
+		assert.strictEqual(index.lookupPath('str::len')?.url, 'core/primitive.str.html#method.len');
+		assert.strictEqual(index.lookupPath('collections::HashMap')?.fullPath, 'std::collections::HashMap');
+	});
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IndexedImplBlock, implTargetName } from '../implIndex';
+import { DerefChainHost, followDerefChain, MAX_TYPE_CHAIN_DEPTH, resolveTypeAlias } from '../typeChain';
+import { parseRustFile } from '../rustParser';
+
+const FIXTURE = vscode.Uri.file(path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'type-chains.rs'));
+const SELECTOR: vscode.DocumentSelector = { pattern: '**/fixtures/type-chains.rs' };
+
+// A block as the backends report it for impls of the standard library, which the fixture does not define
+function stdBlock(header: string, selfType: string): IndexedImplBlock {
+	return { header, selfType, selfName: implTargetName(selfType), filePath: '/std/core/src/str/mod.rs', line: 0, endLine: 0, methods: [] };
+}
+
+async function fixtureLines(): Promise<string[]> {
+	return (await vscode.workspace.openTextDocument(FIXTURE)).getText().split('\n');
+}
+
+// Where the fixture defines an item, as a definition provider reports it: at the name
+async function findDefinition(name: string): Promise<vscode.Location | undefined> {
+	const lines = await fixtureLines();
+	const line = lines.findIndex(text => new RegExp(`\\b(?:struct|enum|type) ${name}\\b`).test(text));
+	return line >= 0 ? new vscode.Location(FIXTURE, new vscode.Position(line, lines[line].indexOf(name))) : undefined;
+}
+
+async function definitionOf(name: string): Promise<vscode.Location> {
+	return (await findDefinition(name))!;
+}
+
+// Impl blocks of the fixture, found by the name of their self type
+async function fixtureImpls(name: string): Promise<IndexedImplBlock[]> {
+	return parseRustFile((await fixtureLines()).join('\n')).items
+		.filter(item => item.impl && implTargetName(item.impl.selfType) === name)
+		.map(item => ({
+			header: item.signature,
+			traitName: item.impl!.traitName,
+			selfType: item.impl!.selfType,
+			selfName: name,
+			filePath: FIXTURE.fsPath,
+			line: item.line,
+			endLine: item.endLine,
+			methods: []
+		}));
+}
+
+suite('Type Chains', () => {
+	let stubs: vscode.Disposable[];
+	let logged: string[];
+	let host: DerefChainHost;
+
+	setup(() => {
+		// A definition provider that goes to the fixture's item named at the position
+		stubs = [vscode.languages.registerDefinitionProvider(SELECTOR, {
+			provideDefinition(document, position) {
+				return findDefinition(document.getText(document.getWordRangeAtPosition(position)));
+			}
+		})];
+		logged = [];
+		host = {
+			implsOf: async target => {
+				const std: { [name: string]: IndexedImplBlock[] } = {
+					str: [stdBlock('impl str', 'str')],
+					'': [stdBlock('impl<T> [T]', '[T]'), stdBlock('impl<A, B> (A, B)', '(A, B)')]
+				};
+				return std[target.name] || fixtureImpls(target.name);
+			},
+			searchPathsOf: async () => [path.dirname(FIXTURE.fsPath)],
+			primitiveImplRoots: async () => ['/std/core/src'],
+			log: message => logged.push(message)
+		};
+	});
+
+	teardown(() => {
+		stubs.forEach(stub => stub.dispose());
+	});
+
+	async function startOf(name: string): Promise<string> {
+		return `${FIXTURE.fsPath}:${(await definitionOf(name)).range.start.line}`;
+	}
+
+	test('follows aliases to the aliased type', async () => {
+		const aliased = await resolveTypeAlias(await definitionOf('AliasOfAlias'), await fixtureLines());
+		assert.strictEqual(aliased?.location.range.start.line, (await definitionOf('Inner')).range.start.line);
+
+		// A definition reported at the docs of the alias
+		const docs = new vscode.Location(FIXTURE, new vscode.Position((await definitionOf('AliasOfAlias')).range.start.line - 1, 0));
+		assert.strictEqual((await resolveTypeAlias(docs, await fixtureLines()))?.location.range.start.line, aliased?.location.range.start.line);
+	});
+
+	test('takes no alias from the items after a definition', async () => {
+		const lines = await fixtureLines();
+		const variant = lines.findIndex(text => text.includes('Parse,'));
+		assert.strictEqual(await resolveTypeAlias(new vscode.Location(FIXTURE, new vscode.Position(variant, 4)), lines), undefined);
+		assert.strictEqual(await resolveTypeAlias(await definitionOf('Error'), lines), undefined);
+		assert.strictEqual(await resolveTypeAlias(await definitionOf('Inner'), lines), undefined);
+	});
+
+	test('lists the impls of a Deref target named through aliases', async () => {
+		const steps = await followDerefChain(host, await fixtureImpls('Outer'), await startOf('Outer'));
+
+		assert.deepStrictEqual(steps.map(step => [step.target.type, step.target.impl.name, step.target.impl.location?.range.start.line]), [
+			['AliasOfAlias', 'Inner', (await definitionOf('Inner')).range.start.line]
+		]);
+		assert.deepStrictEqual(steps[0].blocks.map(block => block.header), ['impl Inner']);
+	});
+
+	test('stops where a Deref chain returns to a type seen before', async () => {
+		const steps = await followDerefChain(host, await fixtureImpls('Loop1'), await startOf('Loop1'));
+
+		assert.deepStrictEqual(steps.map(step => step.target.type), ['Loop2']);
+		assert.deepStrictEqual(logged, ['Deref chain returns to Loop1, stopping']);
+	});
+
+	test('follows at most MAX_TYPE_CHAIN_DEPTH Deref impls', async () => {
+		const steps = await followDerefChain(host, await fixtureImpls('Chain0'), await startOf('Chain0'));
+
+		assert.strictEqual(steps.length, MAX_TYPE_CHAIN_DEPTH);
+		assert.strictEqual(steps[steps.length - 1].target.type, `Chain${MAX_TYPE_CHAIN_DEPTH}`);
+	});
+
+	test('looks up str and slice targets by name in the standard library', async () => {
+		const text = await followDerefChain(host, await fixtureImpls('Text'), await startOf('Text'));
+		assert.deepStrictEqual(text.map(step => [step.target.type, step.target.impl.name, step.target.impl.searchPaths]), [['str', 'str', ['/std/core/src']]]);
+		assert.deepStrictEqual(text[0].blocks.map(block => block.header), ['impl str']);
+
+		// Slice impls are unnamed in the index, like those of tuples, which are left out
+		const bytes = await followDerefChain(host, await fixtureImpls('Bytes'), await startOf('Bytes'));
+		assert.deepStrictEqual(bytes.map(step => step.target.key), ['primitive:slice']);
+		assert.deepStrictEqual(bytes[0].blocks.map(block => block.header), ['impl<T> [T]']);
+
+		// Not at all when the standard library is not searched
+		const unsearched = { ...host, primitiveImplRoots: async () => undefined };
+		assert.deepStrictEqual(await followDerefChain(unsearched, await fixtureImpls('Text'), await startOf('Text')), []);
+	});
+});
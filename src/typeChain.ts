@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { ImplTarget } from './implBackend';
+import { IndexedImplBlock, implTargetName } from './implIndex';
+import { throwIfCancelled } from './lookupScheduler';
+import { itemsAt, parseRustFile, RustItem } from './rustParser';
+
+// Longest chain of type aliases or Deref impls that is followed from a type
+export const MAX_TYPE_CHAIN_DEPTH = 8;
+
+// A type reached through a Deref impl: as written in the impl, where its impls are looked up, and a key
+// identifying it for cycle detection
+export interface DerefTarget {
+	type: string;
+	impl: ImplTarget;
+	key: string;
+}
+
+// A step of a Deref chain: the target and its impl blocks
+export interface DerefStep {
+	target: DerefTarget;
+	blocks: IndexedImplBlock[];
+}
+
+// What following a Deref chain needs from the extension
+export interface DerefChainHost {
+	// Impl blocks of a type from the configured backends, without those of disabled doc sources
+	implsOf(target: ImplTarget, token?: vscode.CancellationToken): Promise<IndexedImplBlock[]>;
+	// Directories searched for the impls of a type defined in a file
+	searchPathsOf(filePath: string): Promise<string[]>;
+	// Standard library sources with the impls of str and slices; undefined when they are not searched
+	primitiveImplRoots(filePath: string, token?: vscode.CancellationToken): Promise<string[] | undefined>;
+	log(message: string): void;
+}
+
+// Where the symbol at a position is defined
+export async function getDefinitionLocation(documentUri: vscode.Uri, position: vscode.Position): Promise<vscode.Location | undefined> {
+	const definitions = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[]>(
+		'vscode.executeDefinitionProvider',
+		documentUri,
+		position
+	);
+	if (!definitions || definitions.length === 0) {
+		return undefined;
+	}
+
+	const defLocation = definitions[0];
+	return 'targetUri' in defLocation
+		? new vscode.Location(defLocation.targetUri, defLocation.targetSelectionRange || defLocation.targetRange)
+		: defLocation;
+}
+
+// The type a `type A<T> = path::B<T>;` item names, and where B is written. No position for types that are not
+// paths, e.g. `[u8]` or `&str`
+function namedType(lines: string[], item: RustItem): { type: string; position?: vscode.Position } | undefined {
+	const type = /^[^=]*?\btype\s+\w+\s*(?:<[^=]*>)?\s*=\s*([\s\S]+)$/.exec(item.signature)?.[1].trim();
+	if (!type) {
+		return undefined;
+	}
+	const text = lines.slice(item.line, item.endLine + 1).join('\n');
+	const match = /\btype\s+\w+\s*(?:<[^=]*>)?\s*=\s*(?:::)?(?:\w+\s*::\s*)*(?=\w)/.exec(text);
+	if (!match) {
+		return { type };
+	}
+	const before = text.substring(0, match.index + match[0].length).split('\n');
+	return { type, position: new vscode.Position(item.line + before.length - 1, before[before.length - 1].length) };
+}
+
+// Where the alias defined at a line names its type. Undefined unless the item at the line is a type alias
+function findAliasedType(lines: string[], line: number): vscode.Position | undefined {
+	const item = itemsAt(parseRustFile(lines.join('\n')).items, line).pop();
+	return item?.kind === 'type' ? namedType(lines, item)?.position : undefined;
+}
+
+// Follow a type alias, and the aliases it names in turn, to the definition of the aliased type with the definition
+// provider. Undefined when the definition is no alias or the provider cannot resolve it
+export async function resolveTypeAlias(definition: vscode.Location, lines: string[], token?: vscode.CancellationToken): Promise<{ location: vscode.Location; lines: string[] } | undefined> {
+	let resolved: { location: vscode.Location; lines: string[] } | undefined;
+	const seen = new Set<string>();
+	for (let depth = 0; depth < MAX_TYPE_CHAIN_DEPTH; depth++) {
+		const aliased = findAliasedType(lines, definition.range.start.line);
+		const key = `${definition.uri.fsPath}:${aliased?.line}`;
+		if (!aliased || seen.has(key)) {
+			break;
+		}
+		seen.add(key);
+		const target = await getDefinitionLocation(definition.uri, aliased);
+		throwIfCancelled(token);
+		if (!target) {
+			break;
+		}
+		definition = target;
+		lines = (await vscode.workspace.openTextDocument(target.uri)).getText().split('\n');
+		resolved = { location: target, lines };
+	}
+	return resolved;
+}
+
+// Primitive types whose inherent impls are in the standard library: str and slices
+function primitiveTypeName(type: string): string | undefined {
+	if (type === 'str') {
+		return 'str';
+	}
+	return /^\[[^;]*\]$/.test(type) ? 'slice' : undefined;
+}
+
+// The `type Target = U;` of a Deref impl: U as written and where its name is
+async function getDerefTarget(block: IndexedImplBlock): Promise<{ type: string; position?: vscode.Position } | undefined> {
+	const lines = (await vscode.workspace.openTextDocument(vscode.Uri.file(block.filePath))).getText().split('\n');
+	const impl = itemsAt(parseRustFile(lines.join('\n')).items, block.line).filter(item => item.impl).pop();
+	const target = impl?.children.find(child => child.kind === 'type' && child.name === 'Target');
+	return target && namedType(lines, target);
+}
+
+// Where the impls of a Deref target are looked up, and a key identifying the target for cycle detection
+export async function resolveDerefTarget(host: DerefChainHost, block: IndexedImplBlock, token?: vscode.CancellationToken): Promise<DerefTarget | undefined> {
+	const target = await getDerefTarget(block);
+	if (!target) {
+		return undefined;
+	}
+
+	// str and slices: by name in the standard library sources, which no definition provider reaches
+	const primitive = primitiveTypeName(target.type);
+	if (primitive) {
+		const searchPaths = await host.primitiveImplRoots(block.filePath, token);
+		return searchPaths && { type: target.type, impl: { name: primitive, searchPaths }, key: `primitive:${primitive}` };
+	}
+	if (!target.position) {
+		return undefined;
+	}
+
+	const name = implTargetName(target.type);
+	const definition = await getDefinitionLocation(vscode.Uri.file(block.filePath), target.position);
+	throwIfCancelled(token);
+	if (!definition) {
+		// Without a definition provider, the target is looked up by name in the crate of the impl
+		return /^[A-Za-z_]\w*$/.test(name)
+			? { type: target.type, impl: { name, searchPaths: await host.searchPathsOf(block.filePath) }, key: `name:${name}` }
+			: undefined;
+	}
+
+	let lines = (await vscode.workspace.openTextDocument(definition.uri)).getText().split('\n');
+	let location = definition;
+	const aliased = await resolveTypeAlias(definition, lines, token);
+	if (aliased) {
+		({ location, lines } = aliased);
+	}
+	// The definition must be a type (a generic parameter as target resolves to the impl's generics)
+	const item = itemsAt(parseRustFile(lines.join('\n')).items, location.range.start.line).pop();
+	const nameMatch = item && ['struct', 'enum', 'union'].includes(item.kind)
+		? new RegExp(`\\b${item.kind}\\s+${item.name}\\b`).exec(lines[item.line])
+		: null;
+	if (!item || !nameMatch) {
+		return undefined;
+	}
+	const character = nameMatch.index + nameMatch[0].length - item.name.length;
+	const filePath = location.uri.fsPath;
+	return {
+		type: target.type,
+		impl: {
+			name: item.name,
+			location: new vscode.Location(location.uri, new vscode.Position(item.line, character)),
+			searchPaths: await host.searchPathsOf(filePath)
+		},
+		key: `${filePath}:${item.line}`
+	};
+}
+
+// Follow the Deref impls among a type's impl blocks, then those of each target, to the impl blocks of every target.
+// start identifies the type itself; the chain stops at a target seen before or at the depth limit
+export async function followDerefChain(host: DerefChainHost, blocks: IndexedImplBlock[], start: string, token?: vscode.CancellationToken): Promise<DerefStep[]> {
+	const steps: DerefStep[] = [];
+	const seen = new Set([start]);
+	for (let depth = 0; depth < MAX_TYPE_CHAIN_DEPTH; depth++) {
+		const deref = blocks.find(block => block.traitName && /(?:^|::)Deref$/.test(block.traitName));
+		const target = deref && await resolveDerefTarget(host, deref, token);
+		if (!target) {
+			break;
+		}
+		if (seen.has(target.key)) {
+			host.log(`Deref chain returns to ${target.type}, stopping`);
+			break;
+		}
+		seen.add(target.key);
+
+		// Primitive impls are found by name; the index leaves slice impls ("impl<T> [T]") unnamed
+		const primitive = primitiveTypeName(target.type);
+		const query = primitive === 'slice' ? { ...target.impl, name: '' } : target.impl;
+		blocks = (await host.implsOf(query, token))
+			.filter(block => !primitive || primitiveTypeName(block.selfType) === primitive);
+		steps.push({ target, blocks });
+	}
+	return steps;
+}